@@ -1,9 +1,27 @@
 import { Application } from 'pixi.js'
 import { IsoScene } from './scenes/IsoScene'
+import type { MapData } from './maps/MapData'
+import { TiledMapLoader } from './maps/TiledMapLoader'
+import { TiledMapExporter } from './maps/TiledMapExporter'
+import { SeededRandom } from './utils/SeededRandom'
+import { SaveManager } from './save/SaveManager'
+import type { SceneState } from './save/SceneState'
+import { FileUtils } from './utils/FileUtils'
+import type { LevelEditor } from './editor/LevelEditor'
+import type { Pathfinder } from './pathfinding/Pathfinder'
+import type { CharacterAppearance } from './entities/Character'
+import { Character3D } from './entities/Character3D'
+import { CharacterBaker } from './entities/CharacterBaker'
+import { CharacterSheetLoader } from './entities/CharacterSheetLoader'
+import { InputManager, type InputEvent } from './input/InputManager'
+import { SettingsManager, type GameSettings } from './save/SettingsManager'
 
 export class Game {
   private app: Application | null = null
   private scene: IsoScene | null = null
+  private seed: number = 0 // World generation seed (shared via the "seed" query parameter)
+  private settings: GameSettings = SettingsManager.load() // Player preferences (input bindings)
+  private input: InputManager = new InputManager(this.settings.bindings) // Turns mouse, touch, keyboard and gamepad input into actions
 
   async init(canvas: HTMLCanvasElement) {
     // Create PixiJS application
@@ -36,12 +54,66 @@ export class Game {
       resizeTo: window,
     })
 
-    this.createScene()
+    // Load a hand-authored map if requested (e.g. ?map=assets/maps/example.tmj)
+    const mapData = await this.loadMapFromQuery()
+    const character = await this.loadCharacterFromQuery()
+    
+    // Use the seed from the URL so a world can be reproduced, or pick a new one
+    const querySeed = new URLSearchParams(window.location.search).get('seed')
+    this.seed = (querySeed !== null ? SeededRandom.parseSeed(querySeed) : null) ?? SeededRandom.createSeed()
+    if (!mapData) {
+      this.updateQuery({ seed: String(this.seed) })
+    }
+
+    this.createScene(mapData, character)
     this.setupEventListeners()
     this.startGameLoop()
   }
 
-  private createScene() {
+  /**
+   * Load the Tiled map named by the "map" query parameter
+   * Returns null (random generation) when no map is requested or loading fails
+   */
+  private async loadMapFromQuery(): Promise<MapData | null> {
+    const mapUrl = new URLSearchParams(window.location.search).get('map')
+    if (!mapUrl) return null
+
+    try {
+      return await TiledMapLoader.load(mapUrl)
+    } catch (error) {
+      console.warn('Failed to load map, falling back to random generation:', error)
+      return null
+    }
+  }
+
+  /**
+   * Get the character drawing named by the "character" query parameter: a sprite sheet
+   * (e.g. ?character=assets/characters/hero.json), a GLTF model (.glb or .gltf), or
+   * "baked" for the 3D character baked into sprites
+   * Returns undefined (the 3D character) when none is requested or loading fails
+   */
+  private async loadCharacterFromQuery(): Promise<CharacterAppearance | undefined> {
+    const characterUrl = new URLSearchParams(window.location.search).get('character')
+    if (!characterUrl) return undefined
+
+    if (/\.(glb|gltf)$/i.test(characterUrl)) {
+      return { type: 'model', modelUrl: characterUrl }
+    }
+    if (characterUrl === 'baked') {
+      const model = new Character3D()
+      const sheet = CharacterBaker.bake(model)
+      model.destroy()
+      return { type: 'sprite', sheet }
+    }
+    try {
+      return { type: 'sprite', sheet: await CharacterSheetLoader.load(characterUrl) }
+    } catch (error) {
+      console.warn('Failed to load character sheet, falling back to the 3D character:', error)
+      return undefined
+    }
+  }
+
+  private createScene(mapData: MapData | null, character?: CharacterAppearance) {
     if (!this.app) return
 
     // Use renderer dimensions to ensure consistency across all devices
@@ -51,7 +123,7 @@ export class Game {
     const height = this.app.renderer.height
     
     // Create isometric scene - it will fill the screen and handle its own positioning
-    this.scene = new IsoScene(width, height)
+    this.scene = new IsoScene(width, height, { mapData, seed: this.seed, character })
     
     this.app.stage.addChild(this.scene)
   }
@@ -59,36 +131,191 @@ export class Game {
   private setupEventListeners() {
     if (!this.app || !this.scene) return
 
-    // Handle mousedown events
-    this.app.canvas.addEventListener('mousedown', (event) => {
-      const rect = this.app!.canvas.getBoundingClientRect()
-      const x = event.clientX - rect.left
-      const y = event.clientY - rect.top
-      this.scene!.handleClick(x, y)
+    this.input.attach(this.app.canvas)
+    this.input.onAction((event) => this.handleAction(event))
+
+    // Keep rebound controls for the next session
+    this.input.onBindingsChange((bindings) => {
+      this.settings = { ...this.settings, bindings }
+      SettingsManager.save(this.settings)
     })
+  }
 
-    // Handle mousemove events - rotate character towards mouse when not moving (for testing)
-    // DISABLED: Uncomment to enable mouse following rotation
-    // this.app.canvas.addEventListener('mousemove', (event) => {
-    //   const rect = this.app!.canvas.getBoundingClientRect()
-    //   const x = event.clientX - rect.left
-    //   const y = event.clientY - rect.top
-    //   this.scene!.handleMouseMove(x, y)
-    // })
+  /**
+   * Carry out an action triggered by the player
+   */
+  private handleAction(event: InputEvent) {
+    if (!this.scene) return
+
+    switch (event.action) {
+      case 'move-to':
+        // Mouse clicks move right away, touch taps preview first
+        // (the first tap shows the path, a second tap on the same tile confirms the move)
+        if (event.pointerType === 'touch') {
+          this.scene.handleTap(event.x, event.y)
+        } else {
+          this.scene.handleClick(event.x, event.y)
+        }
+        break
+      case 'hover':
+        // Preview the path to the hovered tile (and scroll at the screen edges when panned away)
+        this.scene.handleMouseMove(event.x, event.y)
+        this.scene.getCamera().setPointer({ x: event.x, y: event.y })
+        break
+      case 'hover-end':
+        this.scene.hidePathPreview()
+        this.scene.getCamera().setPointer(null)
+        break
+      case 'interact':
+        this.scene.interact()
+        break
+      case 'cancel':
+        this.scene.cancel()
+        break
+      case 'zoom-in':
+      case 'zoom-out':
+        // Only the view transform changes, the world is not rebuilt
+        this.scene.getCamera().zoomBy(event.factor, event.x, event.y)
+        break
+      case 'pan':
+        this.scene.getCamera().panBy(event.dx, event.dy)
+        break
+      case 'recenter':
+        this.scene.getCamera().follow()
+        break
+      case 'rotate-left':
+        this.scene.rotateView(-1)
+        break
+      case 'rotate-right':
+        this.scene.rotateView(1)
+        break
+      case 'next-cube':
+        this.scene.cycleCubeSelection(1)
+        break
+      case 'previous-cube':
+        this.scene.cycleCubeSelection(-1)
+        break
+    }
   }
 
   private startGameLoop() {
     if (!this.app || !this.scene) return
 
     // Game loop for smooth animations
-    // Use ticker deltaTime for time-based movement (ensures consistent speed)
+    // Use the ticker's elapsed time for time-based movement (ensures consistent speed)
     this.app.ticker.add((ticker) => {
-      // ticker.deltaTime is in milliseconds, convert to seconds
-      const deltaTime = ticker.deltaTime / 1000
+      // ticker.deltaMS is in milliseconds (ticker.deltaTime counts frames), convert to seconds
+      const deltaTime = ticker.deltaMS / 1000
+      this.input.update()
+      const direction = this.input.getMoveDirection()
+      this.scene!.setMoveInput(direction.x, direction.y, this.input.getMoveSpeed())
       this.scene!.update(deltaTime)
     })
   }
 
+  /**
+   * Update query parameters without reloading the page (null removes a parameter)
+   */
+  private updateQuery(params: Record<string, string | null>) {
+    const url = new URL(window.location.href)
+    for (const [key, value] of Object.entries(params)) {
+      if (value === null) {
+        url.searchParams.delete(key)
+      } else {
+        url.searchParams.set(key, value)
+      }
+    }
+    window.history.replaceState(null, '', url)
+  }
+
+  /**
+   * Regenerate the world from a seed and record it in the URL
+   */
+  regenerate(seed: number) {
+    this.seed = seed
+    this.scene?.regenerate(seed)
+    this.updateQuery({ seed: String(seed), map: null })
+  }
+
+  /**
+   * Save the current scene state to localStorage
+   */
+  saveState() {
+    if (!this.scene) return
+    SaveManager.saveToStorage(this.scene.serialize())
+  }
+
+  /**
+   * Load the scene state saved in localStorage
+   * Returns false if there is no valid save
+   */
+  loadState(): boolean {
+    try {
+      const state = SaveManager.loadFromStorage()
+      if (!state) return false
+      this.applyState(state)
+      return true
+    } catch (error) {
+      console.error('Failed to load save:', error)
+      return false
+    }
+  }
+
+  /**
+   * Download the current scene state as a JSON file
+   */
+  exportState() {
+    if (!this.scene) return
+    SaveManager.exportToFile(this.scene.serialize())
+  }
+
+  /**
+   * Load a scene state from a JSON file
+   * Returns false if the file is not a valid save
+   */
+  async importState(file: File): Promise<boolean> {
+    try {
+      this.applyState(await SaveManager.importFromFile(file))
+      return true
+    } catch (error) {
+      console.error('Failed to import save:', error)
+      return false
+    }
+  }
+
+  private applyState(state: SceneState) {
+    if (!this.scene) return
+    this.scene.restore(state)
+    this.seed = this.scene.getSeed()
+    // The restored world no longer comes from the URL map or seed
+    this.updateQuery({ seed: state.seed !== null ? String(state.seed) : null, map: null })
+  }
+
+  /**
+   * Download the current world (including editor changes) as a Tiled map
+   */
+  exportMap() {
+    if (!this.scene) return
+    const tiledMap = TiledMapExporter.toTiled(this.scene.getMapData(), this.scene.getDefaultCubeColor())
+    FileUtils.downloadJson(tiledMap, 'map.tmj')
+  }
+
+  getEditor(): LevelEditor | null {
+    return this.scene?.getEditor() ?? null
+  }
+
+  getInput(): InputManager {
+    return this.input
+  }
+
+  getPathfinder(): Pathfinder | null {
+    return this.scene?.getPathfinder() ?? null
+  }
+
+  getSeed(): number {
+    return this.seed
+  }
+
   getApp(): Application | null {
     return this.app
   }
@@ -0,0 +1,293 @@
+import type { Container } from 'pixi.js'
+import { IsoUtils, type ViewOrientation } from '../utils/IsoUtils'
+
+/**
+ * How the camera moves
+ * - follow: keeps the target (the character) inside the dead zone, easing towards it
+ * - free: stays where the player panned it (drag or edge scrolling)
+ */
+export type CameraMode = 'follow' | 'free'
+
+export interface CameraOptions {
+  minZoom?: number // Farthest the view zooms out (default 0.5)
+  maxZoom?: number // Closest the view zooms in (default 2.5)
+  deadZone?: { width: number; height: number } // Share of the screen the target moves in without the camera following (default 0.25 x 0.25)
+  followSharpness?: number // Easing rate of the follow: higher catches up faster (default 6)
+  edgeScrollMargin?: number // Distance (pixels) from the screen edge where the pointer scrolls in free mode (default 24)
+  edgeScrollSpeed?: number // Edge scrolling speed in screen pixels per second (default 720)
+}
+
+/**
+ * Grid of tiles the view stays inside
+ */
+export interface GridBounds {
+  width: number // Grid size in tiles
+  height: number
+  tileSize: number
+  orientation?: ViewOrientation // View orientation the grid is drawn in (default 0)
+}
+
+/**
+ * View transform of the scene
+ *
+ * The world is laid out once for its tile size; the camera only moves and scales
+ * the scene container, so zooming never rebuilds tiles or obstacles. The camera is
+ * described by the world point shown at the center of the screen and a zoom factor.
+ *
+ * In follow mode the camera eases towards its target whenever the target leaves the
+ * dead zone. Panning switches to free mode, and follow() brings the view back to the
+ * target. With grid bounds set, the view is clamped so it never shows past the edge
+ * of the (diamond-shaped) grid.
+ */
+export class Camera {
+  private centerX: number = 0 // World point shown at the center of the screen
+  private centerY: number = 0
+  private zoom: number = 1
+  private minZoom: number = 0.5
+  private maxZoom: number = 2.5
+  private screenWidth: number = 0
+  private screenHeight: number = 0
+  private mode: CameraMode = 'follow'
+  private targetX: number = 0 // World point followed in follow mode
+  private targetY: number = 0
+  private recentering: boolean = false // Easing back onto the target after free mode (ignores the dead zone)
+  private deadZone: { width: number; height: number } = { width: 0.25, height: 0.25 }
+  private followSharpness: number = 6
+  private edgeScrollMargin: number = 24
+  private edgeScrollSpeed: number = 720
+  private pointer: { x: number; y: number } | null = null // Hovering pointer (screen coordinates) for edge scrolling
+  private gridBounds: GridBounds | null = null // Grid the view stays inside
+
+  constructor(screenWidth: number, screenHeight: number, options: CameraOptions = {}) {
+    this.setScreenSize(screenWidth, screenHeight)
+    this.deadZone = options.deadZone ?? this.deadZone
+    this.followSharpness = options.followSharpness ?? this.followSharpness
+    this.edgeScrollMargin = options.edgeScrollMargin ?? this.edgeScrollMargin
+    this.edgeScrollSpeed = options.edgeScrollSpeed ?? this.edgeScrollSpeed
+    this.setZoomLimits(options.minZoom ?? this.minZoom, options.maxZoom ?? this.maxZoom)
+  }
+
+  setScreenSize(width: number, height: number) {
+    this.screenWidth = width
+    this.screenHeight = height
+  }
+
+  getZoom(): number {
+    return this.zoom
+  }
+
+  /**
+   * Set the zoom factor (clamped to the limits)
+   * The world point under the anchor (screen coordinates, default the screen center)
+   * stays in place, so wheel and pinch zoom towards the pointer.
+   */
+  setZoom(zoom: number, anchorX: number = this.screenWidth / 2, anchorY: number = this.screenHeight / 2) {
+    const anchor = this.screenToWorld(anchorX, anchorY)
+    this.zoom = Math.max(this.minZoom, Math.min(this.maxZoom, zoom))
+    this.centerX = anchor.x - (anchorX - this.screenWidth / 2) / this.zoom
+    this.centerY = anchor.y - (anchorY - this.screenHeight / 2) / this.zoom
+    this.clampToBounds()
+  }
+
+  /**
+   * Multiply the zoom factor (> 1 zooms in), keeping the point under the anchor in place
+   */
+  zoomBy(factor: number, anchorX?: number, anchorY?: number) {
+    this.setZoom(this.zoom * factor, anchorX, anchorY)
+  }
+
+  getZoomLimits(): { min: number; max: number } {
+    return { min: this.minZoom, max: this.maxZoom }
+  }
+
+  /**
+   * Change how far the view can zoom out and in (the current zoom is clamped to them)
+   */
+  setZoomLimits(min: number, max: number) {
+    this.minZoom = Math.min(min, max)
+    this.maxZoom = Math.max(min, max)
+    this.setZoom(this.zoom)
+  }
+
+  getMode(): CameraMode {
+    return this.mode
+  }
+
+  /**
+   * Set the world point to follow (the character), usually every frame
+   */
+  setTarget(x: number, y: number) {
+    this.targetX = x
+    this.targetY = y
+  }
+
+  /**
+   * Go back to following the target, easing the view back onto it
+   */
+  follow() {
+    if (this.mode === 'follow') return
+    this.mode = 'follow'
+    this.recentering = true
+  }
+
+  /**
+   * Follow the target and center on it right away
+   */
+  snapToTarget() {
+    this.mode = 'follow'
+    this.recentering = false
+    this.lookAt(this.targetX, this.targetY)
+  }
+
+  /**
+   * Move the view by a distance in screen pixels (dragging), switching to free mode
+   */
+  panBy(dx: number, dy: number) {
+    this.mode = 'free'
+    this.recentering = false
+    this.centerX -= dx / this.zoom
+    this.centerY -= dy / this.zoom
+    this.clampToBounds()
+  }
+
+  /**
+   * Set where the pointer hovers (screen coordinates), or null when it left the screen
+   * Near the screen edges it scrolls the view in free mode.
+   */
+  setPointer(pointer: { x: number; y: number } | null) {
+    this.pointer = pointer
+  }
+
+  /**
+   * Keep the view inside a grid of tiles (null removes the bounds)
+   */
+  setGridBounds(bounds: GridBounds | null) {
+    this.gridBounds = bounds
+    this.clampToBounds()
+  }
+
+  /**
+   * Center the view on a world point
+   */
+  lookAt(x: number, y: number) {
+    this.centerX = x
+    this.centerY = y
+    this.clampToBounds()
+  }
+
+  /**
+   * Get the world point shown at the center of the screen
+   */
+  getCenter(): { x: number; y: number } {
+    return { x: this.centerX, y: this.centerY }
+  }
+
+  /**
+   * Move the view for one frame (follow easing or edge scrolling)
+   * @param deltaTime Time elapsed since last frame in seconds (from ticker.deltaMS)
+   */
+  update(deltaTime: number) {
+    if (this.mode === 'free') {
+      this.updateEdgeScroll(deltaTime)
+    } else {
+      this.updateFollow(deltaTime)
+    }
+    this.clampToBounds()
+  }
+
+  /**
+   * Convert screen (canvas) coordinates to world coordinates
+   */
+  screenToWorld(screenX: number, screenY: number): { x: number; y: number } {
+    return {
+      x: this.centerX + (screenX - this.screenWidth / 2) / this.zoom,
+      y: this.centerY + (screenY - this.screenHeight / 2) / this.zoom
+    }
+  }
+
+  /**
+   * Convert world coordinates to screen (canvas) coordinates
+   */
+  worldToScreen(worldX: number, worldY: number): { x: number; y: number } {
+    return {
+      x: (worldX - this.centerX) * this.zoom + this.screenWidth / 2,
+      y: (worldY - this.centerY) * this.zoom + this.screenHeight / 2
+    }
+  }
+
+  /**
+   * Move and scale a container so its contents are seen through the camera
+   */
+  applyTo(container: Container) {
+    container.scale.set(this.zoom)
+    container.position.set(
+      this.screenWidth / 2 - this.centerX * this.zoom,
+      this.screenHeight / 2 - this.centerY * this.zoom
+    )
+  }
+
+  private updateFollow(deltaTime: number) {
+    let desiredX = this.targetX
+    let desiredY = this.targetY
+    if (!this.recentering) {
+      // Only move as far as needed to bring the target back to the edge of the dead zone
+      const halfWidth = this.deadZone.width * this.screenWidth / 2 / this.zoom
+      const halfHeight = this.deadZone.height * this.screenHeight / 2 / this.zoom
+      desiredX = this.centerX + this.excess(this.targetX - this.centerX, halfWidth)
+      desiredY = this.centerY + this.excess(this.targetY - this.centerY, halfHeight)
+    }
+
+    // Exponential easing, independent of the frame rate
+    const t = 1 - Math.exp(-this.followSharpness * deltaTime)
+    this.centerX += (desiredX - this.centerX) * t
+    this.centerY += (desiredY - this.centerY) * t
+
+    if (this.recentering && Math.hypot(desiredX - this.centerX, desiredY - this.centerY) < 0.5) {
+      this.recentering = false
+    }
+  }
+
+  /**
+   * Get how far an offset goes past a half extent (0 inside it)
+   */
+  private excess(offset: number, halfExtent: number): number {
+    if (offset > halfExtent) return offset - halfExtent
+    if (offset < -halfExtent) return offset + halfExtent
+    return 0
+  }
+
+  private updateEdgeScroll(deltaTime: number) {
+    if (!this.pointer) return
+    const margin = this.edgeScrollMargin
+    const directionX = this.pointer.x < margin ? -1 : this.pointer.x > this.screenWidth - margin ? 1 : 0
+    const directionY = this.pointer.y < margin ? -1 : this.pointer.y > this.screenHeight - margin ? 1 : 0
+    const distance = this.edgeScrollSpeed * deltaTime / this.zoom
+    this.centerX += directionX * distance
+    this.centerY += directionY * distance
+  }
+
+  /**
+   * Keep the whole view inside the grid
+   * Works in grid coordinates, where the diamond-shaped grid is a square: the view
+   * rectangle reaches the same distance along both grid axes from its center (in every
+   * orientation, since quarter turns swap the axes).
+   */
+  private clampToBounds() {
+    if (!this.gridBounds) return
+    const { width, height, tileSize, orientation = 0 } = this.gridBounds
+    const halfWidth = this.screenWidth / 2 / this.zoom
+    const halfHeight = this.screenHeight / 2 / this.zoom
+    const reach = halfWidth / (2 * tileSize) + halfHeight / tileSize
+
+    // Tiles are centered on whole grid coordinates, so the grid edge is half a tile out
+    const clamp = (value: number, size: number) => {
+      const min = -0.5 + reach
+      const max = size - 0.5 - reach
+      return min > max ? (size - 1) / 2 : Math.max(min, Math.min(max, value))
+    }
+    const center = IsoUtils.screenToIso(this.centerX, this.centerY, tileSize, 0, orientation)
+    const clamped = IsoUtils.isoToScreen(clamp(center.x, width), clamp(center.y, height), tileSize, 0, orientation)
+    this.centerX = clamped.x
+    this.centerY = clamped.y
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * In-game level editor
+ *
+ * When enabled, tile clicks edit the map (place/remove/paint obstacle cubes or
+ * move the spawn point) instead of moving the character. Every edit is recorded
+ * as a command so it can be undone and redone.
+ */
+
+export type EditorTool = 'place' | 'remove' | 'paint' | 'spawn'
+
+/**
+ * Map editing operations the editor needs from the scene
+ * Each operation updates the world incrementally (cubes, tiles, pathfinding grid)
+ */
+export interface EditableWorld {
+  hasObstacle(isoX: number, isoY: number): boolean
+  canPlaceObstacle(isoX: number, isoY: number): boolean
+  addObstacle(isoX: number, isoY: number, color: number, levels?: number): void
+  removeObstacle(isoX: number, isoY: number): void
+  getObstacleColor(isoX: number, isoY: number): number
+  getObstacleLevels(isoX: number, isoY: number): number
+  setObstacleColor(isoX: number, isoY: number, color: number): void
+  getSpawn(): { isoX: number; isoY: number }
+  setSpawn(isoX: number, isoY: number): void
+  setEditorMode(enabled: boolean): void
+}
+
+interface EditCommand {
+  apply(): void
+  revert(): void
+}
+
+export class LevelEditor {
+  private world: EditableWorld
+  private enabled: boolean = false
+  private tool: EditorTool = 'place'
+  private color: number = 0x8B4513 // Color for placed and painted cubes
+  private undoStack: EditCommand[] = []
+  private redoStack: EditCommand[] = []
+  private maxHistory: number = 200 // Oldest edits are dropped beyond this
+  private listeners: Set<() => void> = new Set()
+
+  constructor(world: EditableWorld) {
+    this.world = world
+  }
+
+  /**
+   * Apply an edit to the tile at the given grid coordinates using the current tool
+   * Returns true if the map changed
+   */
+  handleTileClick(isoX: number, isoY: number): boolean {
+    const command = this.createCommand(isoX, isoY)
+    if (!command) return false
+
+    command.apply()
+    this.undoStack.push(command)
+    if (this.undoStack.length > this.maxHistory) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+    this.notify()
+    return true
+  }
+
+  /**
+   * Build the command for the current tool, or null if the click changes nothing
+   */
+  private createCommand(isoX: number, isoY: number): EditCommand | null {
+    const world = this.world
+    const hasObstacle = world.hasObstacle(isoX, isoY)
+
+    switch (this.tool) {
+      case 'place': {
+        if (hasObstacle || !world.canPlaceObstacle(isoX, isoY)) return null
+        const color = this.color
+        return {
+          apply: () => world.addObstacle(isoX, isoY, color),
+          revert: () => world.removeObstacle(isoX, isoY)
+        }
+      }
+      case 'remove': {
+        if (!hasObstacle) return null
+        const color = world.getObstacleColor(isoX, isoY)
+        const levels = world.getObstacleLevels(isoX, isoY)
+        return {
+          apply: () => world.removeObstacle(isoX, isoY),
+          revert: () => world.addObstacle(isoX, isoY, color, levels)
+        }
+      }
+      case 'paint': {
+        if (!hasObstacle) return null
+        const previousColor = world.getObstacleColor(isoX, isoY)
+        const color = this.color
+        if (previousColor === color) return null
+        return {
+          apply: () => world.setObstacleColor(isoX, isoY, color),
+          revert: () => world.setObstacleColor(isoX, isoY, previousColor)
+        }
+      }
+      case 'spawn': {
+        const previousSpawn = world.getSpawn()
+        if (hasObstacle || (previousSpawn.isoX === isoX && previousSpawn.isoY === isoY)) return null
+        return {
+          apply: () => world.setSpawn(isoX, isoY),
+          revert: () => world.setSpawn(previousSpawn.isoX, previousSpawn.isoY)
+        }
+      }
+    }
+  }
+
+  undo(): boolean {
+    const command = this.undoStack.pop()
+    if (!command) return false
+    command.revert()
+    this.redoStack.push(command)
+    this.notify()
+    return true
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop()
+    if (!command) return false
+    command.apply()
+    this.undoStack.push(command)
+    this.notify()
+    return true
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Forget all edits (call when the world is replaced)
+   */
+  clearHistory() {
+    this.undoStack = []
+    this.redoStack = []
+    this.notify()
+  }
+
+  setEnabled(enabled: boolean) {
+    if (this.enabled === enabled) return
+    this.enabled = enabled
+    this.world.setEditorMode(enabled)
+    this.notify()
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  setTool(tool: EditorTool) {
+    this.tool = tool
+    this.notify()
+  }
+
+  getTool(): EditorTool {
+    return this.tool
+  }
+
+  setColor(color: number) {
+    this.color = color
+    this.notify()
+  }
+
+  getColor(): number {
+    return this.color
+  }
+
+  /**
+   * Subscribe to editor state changes (mode, tool, color, history)
+   * Returns a function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private notify() {
+    for (const listener of this.listeners) {
+      listener()
+    }
+  }
+}
@@ -0,0 +1,542 @@
+import { Container } from 'pixi.js'
+import type { CharacterSheet } from './SpriteCharacter'
+
+/**
+ * How a character is drawn (chosen per character)
+ */
+export type CharacterAppearance =
+  | { type: 'model'; modelUrl?: string } // Three.js character (Character3D): the procedural one, or a GLTF model
+  | { type: 'sprite'; sheet: CharacterSheet } // Sprite sheet (SpriteCharacter), baked or loaded
+
+/**
+ * Character entity: movement along paths and facing, shared by every way of drawing one
+ * 
+ * Positions are world coordinates (screen space of the isometric world, before the
+ * camera); the facing angle is relative to the world, like a Three.js rotation around
+ * the vertical axis, so a character keeps facing the same tiles while the view turns.
+ * Subclasses draw the character in updateAppearance(), which update() calls every frame.
+ * The scene only uses this common interface, so each character can be drawn either way.
+ */
+export abstract class Character extends Container {
+  private currentX: number = 0
+  private currentY: number = 0
+  private targetX: number = 0
+  private targetY: number = 0
+  private currentZ: number = 0 // Elevation above the ground plane (pixels)
+  private startZ: number = 0 // Elevation at the start of the current segment
+  private targetZ: number = 0 // Elevation at the current target
+  private segmentLength: number = 0 // Ground distance of the current segment
+  private segmentSpeed: number = 1 // Speed multiplier of the current segment (terrain)
+  protected isMoving: boolean = false
+  protected isWalkingDirectly: boolean = false // Steered directly (keyboard) instead of following a path
+  private moveSpeed: number = 360 // Constant movement speed (pixels per second)
+  private path: Array<{ x: number; y: number; z: number; speed: number }> = [] // Path waypoints to follow (z = elevation, speed = multiplier)
+  private currentPathIndex: number = 0 // Current waypoint index in path
+  private finalTargetPosition: { x: number; y: number } | null = null // Final target to face when arriving
+  
+  // Rotation state for smooth rotation
+  protected currentRotationY: number = 0 // Current rotation angle in radians
+  private targetRotationY: number = 0 // Target rotation angle in radians
+  private rotationSpeed: number = 0.15 // Rotation interpolation speed (0-1) - slightly slower for more realistic feel
+  private mouseRotationSpeed: number = 0.4 // Faster rotation speed for mouse following
+  protected viewAngle: number = 0 // View rotation around the vertical axis in radians (0 = default orientation)
+
+  /**
+   * Set the character's position in world coordinates immediately
+   * x/y are on the ground plane, z is the elevation of the surface the character stands on
+   */
+  setPosition(x: number, y: number, z: number = 0) {
+    this.currentX = x
+    this.currentY = y
+    this.currentZ = z
+    this.targetX = x
+    this.targetY = y
+    this.targetZ = z
+    this.isMoving = false
+  }
+
+  /**
+   * Start moving towards a new target (one path segment)
+   */
+  private startSegment(x: number, y: number, z: number, speed: number) {
+    this.targetX = x
+    this.targetY = y
+    this.startZ = this.currentZ
+    this.targetZ = z
+    this.segmentSpeed = speed
+    const dx = x - this.currentX
+    const dy = y - this.currentY
+    this.segmentLength = Math.sqrt(dx * dx + dy * dy)
+  }
+
+  /**
+   * Calculate rotation angle from screen-space movement direction
+   * Uses smooth continuous rotation during movement (allows subdirections)
+   * This provides fluid rotation in all 8 directions while moving
+   */
+  private calculateIsoRotation(dx: number, dy: number): number {
+    // Normalize movement direction
+    const length = Math.sqrt(dx * dx + dy * dy)
+    if (length < 0.1) return this.targetRotationY
+    
+    // Use smooth rotation calculation (same as mouse following)
+    // Calculate actual angle using atan2 for smooth continuous rotation
+    let angle = Math.atan2(dy, dx)
+    
+    // Determine which quadrant/direction we're moving in
+    // In isometric: 
+    // - Bottom-left (dx < 0, dy > 0): correct - keep as is
+    // - Top-right (dx > 0, dy < 0): correct - keep as is
+    // - Top-left (dx < 0, dy < 0): needs clockwise rotation
+    // - Bottom-right (dx > 0, dy > 0): needs clockwise rotation
+    
+    const isTopLeft = dx < 0 && dy < 0
+    const isBottomRight = dx > 0 && dy > 0
+    const isTopRight = dx > 0 && dy < 0
+    const isBottomLeft = dx < 0 && dy > 0
+    
+    const isometricAngle = Math.atan(0.5) // ≈ 26.565° for 2:1 isometric
+    
+    // Apply different offset based on direction
+    if (isTopLeft || isBottomRight) {
+      // These directions need more clockwise rotation
+      // Increase the angle to rotate more clockwise (add more offset)
+      angle += isometricAngle + Math.PI / 6 + Math.PI / 36 // Add 30° + 5° = 35° correction for more clockwise rotation
+    } else if (isTopRight || isBottomLeft) {
+      // These directions are correct - keep current calculation
+      angle += isometricAngle
+    } else {
+      // Edge cases - use default
+      angle += isometricAngle
+    }
+    
+    // Add 180 degrees (π) so character faces the direction it's looking at
+    // Negate the angle to reverse rotation direction (clockwise movement = clockwise rotation)
+    // Add the view rotation, so the angle is relative to the world rather than the screen
+    angle = -angle + Math.PI + this.viewAngle
+    
+    // Normalize to [-π, π]
+    while (angle > Math.PI) angle -= Math.PI * 2
+    while (angle < -Math.PI) angle += Math.PI * 2
+    
+    return angle
+  }
+
+  /**
+   * Snap rotation to one of the 4 main isometric directions
+   * Called when character arrives at destination
+   * Uses targetRotationY to find the nearest main direction (towards the target)
+   */
+  private snapToMainDirection(): void {
+    // The 4 main isometric directions: 0°, 90°, 180°, 270°
+    const mainDirections: number[] = [0, Math.PI / 2, Math.PI, 3 * Math.PI / 2]
+    
+    // Find the nearest main direction based on targetRotationY (direction towards target)
+    let nearestDirection: number = mainDirections[0]!
+    let smallestDiff = Math.abs(this.targetRotationY - mainDirections[0]!)
+    
+    // Normalize target rotation for comparison
+    let normalizedTarget = this.targetRotationY
+    while (normalizedTarget < 0) normalizedTarget += Math.PI * 2
+    while (normalizedTarget >= Math.PI * 2) normalizedTarget -= Math.PI * 2
+    
+    for (const direction of mainDirections) {
+      // Calculate difference considering wrap-around
+      const diff1 = Math.abs(normalizedTarget - direction)
+      const diff2 = Math.abs(normalizedTarget - (direction + Math.PI * 2))
+      const diff3 = Math.abs(normalizedTarget - (direction - Math.PI * 2))
+      const diff = Math.min(diff1, diff2, diff3)
+      
+      if (diff < smallestDiff) {
+        smallestDiff = diff
+        nearestDirection = direction
+      }
+    }
+    
+    // Snap to nearest main direction
+    this.targetRotationY = nearestDirection
+    this.currentRotationY = nearestDirection
+  }
+
+  /**
+   * Move the character smoothly to a target world position
+   * @param z Elevation of the target surface (keeps the current elevation if omitted)
+   * @param speed Speed multiplier (e.g. slower on expensive terrain)
+   */
+  moveTo(x: number, y: number, z: number = this.currentZ, speed: number = 1) {
+    this.startSegment(x, y, z, speed)
+    this.isMoving = true
+    this.isWalkingDirectly = false
+    this.path = [] // Clear path when using direct movement
+    this.currentPathIndex = 0
+    
+    // Calculate target rotation to face the new direction
+    const dx = x - this.currentX
+    const dy = y - this.currentY
+    if (Math.abs(dx) > 0.1 || Math.abs(dy) > 0.1) {
+      this.targetRotationY = this.calculateIsoRotation(dx, dy)
+    }
+  }
+
+  /**
+   * Walk directly to a nearby position (keyboard control), facing a screen-space direction
+   * Cancels any path being followed. The caller moves the character a little every frame and
+   * calls stopWalking() once the input is released.
+   */
+  walkTo(x: number, y: number, z: number, directionX: number, directionY: number) {
+    this.path = []
+    this.currentPathIndex = 0
+    this.finalTargetPosition = null
+    this.setPosition(x, y, z)
+    this.isWalkingDirectly = true
+    
+    if (Math.abs(directionX) > 0.1 || Math.abs(directionY) > 0.1) {
+      this.targetRotationY = this.calculateIsoRotation(directionX, directionY)
+    }
+  }
+
+  /**
+   * Stop walking directly and face the nearest main direction (like at the end of a path)
+   */
+  stopWalking() {
+    if (!this.isWalkingDirectly) return
+    this.isWalkingDirectly = false
+    this.snapToMainDirection()
+  }
+
+  /**
+   * Check whether the character is being steered directly
+   */
+  isWalking(): boolean {
+    return this.isWalkingDirectly
+  }
+
+  /**
+   * Stop where the character is (cancels the path being followed)
+   */
+  stop() {
+    if (!this.isMoving) return
+    this.path = []
+    this.currentPathIndex = 0
+    this.finalTargetPosition = null
+    this.setPosition(this.currentX, this.currentY, this.currentZ)
+    this.snapToMainDirection()
+  }
+
+  /**
+   * Get the facing angle for moving in a screen-space direction
+   * (the rotation the character turns to while walking that way)
+   */
+  getRotationTowards(dx: number, dy: number): number {
+    return this.calculateIsoRotation(dx, dy)
+  }
+
+  /**
+   * Turn the character with the view orientation
+   * The facing angle is relative to the world, so the character keeps facing the same
+   * tiles while the view turns.
+   * @param orientation Quarter turns (fractional while a rotation is animated)
+   */
+  setViewRotation(orientation: number) {
+    this.viewAngle = orientation * Math.PI / 2
+  }
+
+  /**
+   * Move every world position the character uses (position, current target, path
+   * waypoints, final target) to new world coordinates, e.g. when the view is rotated
+   * or the tile size changes
+   * Speeds and the progress along the current segment are kept.
+   * @param elevationScale Factor applied to elevations (pixels scale with the tile size)
+   */
+  remapPositions(map: (x: number, y: number) => { x: number; y: number }, elevationScale: number = 1) {
+    const remaining = Math.hypot(this.targetX - this.currentX, this.targetY - this.currentY)
+    const current = map(this.currentX, this.currentY)
+    const target = map(this.targetX, this.targetY)
+    this.currentX = current.x
+    this.currentY = current.y
+    this.targetX = target.x
+    this.targetY = target.y
+    
+    // The segment is as much longer or shorter as what is left of it
+    if (remaining > 0) {
+      this.segmentLength *= Math.hypot(this.targetX - this.currentX, this.targetY - this.currentY) / remaining
+    }
+    this.currentZ *= elevationScale
+    this.startZ *= elevationScale
+    this.targetZ *= elevationScale
+    this.path = this.path.map(point => ({ ...point, ...map(point.x, point.y), z: point.z * elevationScale }))
+    if (this.finalTargetPosition) {
+      this.finalTargetPosition = map(this.finalTargetPosition.x, this.finalTargetPosition.y)
+    }
+  }
+
+  /**
+   * Get the movement speed in pixels per second (before terrain multipliers)
+   */
+  getMoveSpeed(): number {
+    return this.moveSpeed
+  }
+
+  /**
+   * Move the character along a path (array of waypoints)
+   * This is used for pathfinding to navigate around obstacles
+   * @param path Array of waypoints in screen coordinates, or grid coordinates with tileSize
+   *             Screen waypoints may carry an elevation (z); it is interpolated between waypoints
+   *             and a speed multiplier used on the way to the waypoint
+   * @param tileSizeOrTarget Optional: if number, path is treated as grid coordinates. If object with x/y, it's the final target to face.
+   * @param finalTarget Optional: if tileSizeOrTarget is a number, this can be the final target position to face
+   */
+  moveAlongPath(
+    path: Array<[number, number]> | Array<{ x: number; y: number; z?: number; speed?: number }>, 
+    tileSizeOrTarget?: number | { x: number; y: number },
+    finalTarget?: { x: number; y: number }
+  ) {
+    if (path.length === 0) return
+    
+    // Determine if tileSizeOrTarget is a number (tileSize) or object (finalTarget)
+    let tileSize: number | undefined
+    if (typeof tileSizeOrTarget === 'number') {
+      tileSize = tileSizeOrTarget
+      this.finalTargetPosition = finalTarget || null
+    } else if (tileSizeOrTarget && typeof tileSizeOrTarget === 'object') {
+      this.finalTargetPosition = tileSizeOrTarget
+    } else {
+      // tileSizeOrTarget is undefined, check if finalTarget is provided
+      this.finalTargetPosition = finalTarget || null
+    }
+    
+    // Convert path to screen coordinates
+    if (tileSize !== undefined && path.length > 0 && Array.isArray(path[0]) && path[0].length === 2) {
+      // Grid coordinates format: Array<[number, number]>
+      this.path = (path as Array<[number, number]>).map(([gridX, gridY]) => ({
+        x: gridX * tileSize + tileSize / 2,
+        y: gridY * tileSize + tileSize / 2,
+        z: this.currentZ,
+        speed: 1
+      }))
+    } else {
+      // Screen coordinates format: Array<{ x: number; y: number; z?: number; speed?: number }>
+      // Waypoints without elevation keep the current elevation
+      this.path = (path as Array<{ x: number; y: number; z?: number; speed?: number }>).map((point) => ({
+        x: point.x,
+        y: point.y,
+        z: point.z ?? this.currentZ,
+        speed: point.speed ?? 1
+      }))
+    }
+    
+    this.currentPathIndex = 0
+    this.isMoving = true
+    this.isWalkingDirectly = false
+    
+    // Start moving to first waypoint
+    if (this.path.length > 0) {
+      const firstPoint = this.path[0]
+      if (firstPoint) {
+        this.startSegment(firstPoint.x, firstPoint.y, firstPoint.z, firstPoint.speed)
+      }
+    }
+  }
+
+  /**
+   * Update the character's position and rotation (call this in the game loop)
+   * @param deltaTime Time elapsed since last frame in seconds (from ticker.deltaMS)
+   * Returns true if still moving, false if reached target
+   */
+  update(deltaTime: number = 1/60): boolean {
+    this.updateRotation()
+    this.updateAppearance(deltaTime)
+
+    if (!this.isMoving) {
+      return false
+    }
+
+    const dx = this.targetX - this.currentX
+    const dy = this.targetY - this.currentY
+    const distance = Math.sqrt(dx * dx + dy * dy)
+
+    // Calculate target rotation based on movement direction
+    if (distance > 0.1) {
+      // If we have a final target position and the movement is not diagonal (pure horizontal or vertical),
+      // orient towards the final target instead of the next waypoint
+      if (this.finalTargetPosition) {
+        const absDx = Math.abs(dx)
+        const absDy = Math.abs(dy)
+        const isDiagonal = absDx > 0.1 && absDy > 0.1
+        
+        // For non-diagonal movement (corridors), orient towards final target
+        if (!isDiagonal) {
+          const finalDx = this.finalTargetPosition.x - this.currentX
+          const finalDy = this.finalTargetPosition.y - this.currentY
+          const finalDistance = Math.sqrt(finalDx * finalDx + finalDy * finalDy)
+          if (finalDistance > 0.1) {
+            this.targetRotationY = this.calculateIsoRotation(finalDx, finalDy)
+          }
+        } else {
+          // For diagonal movement, use movement direction
+          this.targetRotationY = this.calculateIsoRotation(dx, dy)
+        }
+      } else {
+        // No final target, use movement direction
+        this.targetRotationY = this.calculateIsoRotation(dx, dy)
+      }
+    }
+
+    if (distance < 0.1) {
+      this.currentX = this.targetX
+      this.currentY = this.targetY
+      this.currentZ = this.targetZ
+      
+      // If following a path, move to next waypoint
+      if (this.path.length > 0 && this.currentPathIndex < this.path.length - 1) {
+        this.currentPathIndex++
+        const nextPoint = this.path[this.currentPathIndex]
+        this.startSegment(nextPoint?.x ?? 0, nextPoint?.y ?? 0, nextPoint?.z ?? this.currentZ, nextPoint?.speed ?? 1)
+        return true // Continue moving to next waypoint
+      } else {
+        // Reached end of path or no path
+        // If there's a final target position, orient character towards it
+        if (this.finalTargetPosition) {
+          const dx = this.finalTargetPosition.x - this.currentX
+          const dy = this.finalTargetPosition.y - this.currentY
+          if (Math.abs(dx) > 0.1 || Math.abs(dy) > 0.1) {
+            this.targetRotationY = this.calculateIsoRotation(dx, dy)
+            // Snap to main direction after calculating rotation towards target
+            this.snapToMainDirection()
+          } else {
+            this.snapToMainDirection()
+          }
+        } else {
+          // Snap rotation to one of the 4 main directions when arriving at destination
+          this.snapToMainDirection()
+        }
+        
+        this.isMoving = false
+        this.path = []
+        this.currentPathIndex = 0
+        this.finalTargetPosition = null
+        return false
+      }
+    }
+
+    // Constant speed movement - move towards target at fixed speed (time-based),
+    // scaled by the segment's speed multiplier (slower on expensive terrain)
+    const moveDistance = Math.min(this.moveSpeed * this.segmentSpeed * deltaTime, distance)
+    const moveX = (dx / distance) * moveDistance
+    const moveY = (dy / distance) * moveDistance
+    
+    this.currentX += moveX
+    this.currentY += moveY
+    
+    // Interpolate the elevation along the segment so the character walks up and down slopes
+    // (flat parts of a path have the same elevation at both ends)
+    const remaining = distance - moveDistance
+    const progress = this.segmentLength > 0 ? Math.min(1, Math.max(0, 1 - remaining / this.segmentLength)) : 1
+    this.currentZ = this.startZ + (this.targetZ - this.startZ) * progress
+    
+    return true
+  }
+
+  /**
+   * Rotate character to face a target position (for testing - mouse follow)
+   * Only works when character is not moving
+   * Uses smooth continuous rotation based on actual angle to mouse
+   */
+  rotateTowardsPosition(targetX: number, targetY: number) {
+    if (this.isMoving) return // Don't override rotation when moving
+    
+    const dx = targetX - this.currentX
+    const dy = targetY - this.currentY
+    const length = Math.sqrt(dx * dx + dy * dy)
+    
+    if (length > 0.1) {
+      // Calculate actual angle to mouse using atan2
+      // In isometric view, we need to account for the coordinate system rotation
+      let angle = Math.atan2(dy, dx)
+      
+      // In isometric view, the coordinate system is rotated
+      // Based on isoToScreen: x = (isoX - isoY) * tileSize, y = (isoX + isoY) * tileSize / 2
+      // The screen coordinates are rotated 45 degrees from standard Cartesian
+      // Adjust the angle to align with isometric axes
+      angle += Math.PI / 4
+      
+      // Add 180 degrees (π) so character faces the direction it's looking at
+      // Negate the angle to reverse rotation direction (clockwise mouse = clockwise character)
+      angle = -angle + Math.PI + this.viewAngle
+      
+      // Normalize to [-π, π]
+      while (angle > Math.PI) angle -= Math.PI * 2
+      while (angle < -Math.PI) angle += Math.PI * 2
+      
+      this.targetRotationY = angle
+    }
+  }
+
+  /**
+   * Smoothly rotate character towards target rotation
+   * Uses faster rotation speed when not moving (mouse following)
+   */
+  private updateRotation() {
+    let current = this.currentRotationY
+    let target = this.targetRotationY
+    let diff = target - current
+    
+    // Normalize to shortest path [-π, π]
+    while (diff > Math.PI) diff -= Math.PI * 2
+    while (diff < -Math.PI) diff += Math.PI * 2
+    
+    // Use faster rotation speed when not moving (for mouse following)
+    const speed = this.isMoving || this.isWalkingDirectly ? this.rotationSpeed : this.mouseRotationSpeed
+    
+    // Smooth interpolation
+    if (Math.abs(diff) < 0.01) {
+      this.currentRotationY = target
+    } else {
+      this.currentRotationY += diff * speed
+    }
+    
+    // Normalize current angle
+    while (this.currentRotationY > Math.PI) this.currentRotationY -= Math.PI * 2
+    while (this.currentRotationY < -Math.PI) this.currentRotationY += Math.PI * 2
+  }
+
+  getPosition(): { x: number; y: number } {
+    return { x: this.currentX, y: this.currentY }
+  }
+
+  /**
+   * Get the current elevation above the ground plane (pixels)
+   * The character is drawn this far above its ground position
+   */
+  getElevation(): number {
+    return this.currentZ
+  }
+
+  /**
+   * Get the current facing angle in radians
+   */
+  getRotation(): number {
+    return this.currentRotationY
+  }
+
+  /**
+   * Set the facing angle immediately (no smooth rotation)
+   */
+  setRotation(angle: number) {
+    this.currentRotationY = angle
+    this.targetRotationY = angle
+  }
+
+  /**
+   * Update character scale based on tile size
+   * Scales the character proportionally to match the tile size
+   */
+  abstract updateScale(tileSize: number): void
+
+  /**
+   * Draw the character in its current state (called from update(), after the rotation
+   * was updated)
+   * @param deltaTime Time elapsed since last frame in seconds
+   */
+  protected abstract updateAppearance(deltaTime: number): void
+}
@@ -1,36 +1,28 @@
-import { Container, Sprite, Texture } from 'pixi.js'
+import { Sprite, Texture } from 'pixi.js'
 import * as THREE from 'three'
+import { CharacterAtlas } from './CharacterAtlas'
+import { Character } from './Character'
 
 /**
  * 3D Character entity using Three.js
  * 
  * This creates a 3D character that can be integrated into the PixiJS scene.
  * The character rotates to face the direction of movement, providing a full
- * 360-degree view like in Brawl Stars.
+ * 360-degree view like in Brawl Stars. Movement comes from Character; the Three.js
+ * scene is rendered into a region of the shared character atlas, which the sprite
+ * samples.
  */
-export class Character3D extends Container {
-  private currentX: number = 0
-  private currentY: number = 0
-  private targetX: number = 0
-  private targetY: number = 0
-  private isMoving: boolean = false
-  private moveSpeed: number = 6000 // Constant movement speed (pixels per second)
-  private path: Array<{ x: number; y: number }> = [] // Path waypoints to follow
-  private currentPathIndex: number = 0 // Current waypoint index in path
-  private finalTargetPosition: { x: number; y: number } | null = null // Final target to face when arriving
-  
-  // Rotation state for smooth rotation
-  private currentRotationY: number = 0 // Current rotation angle in radians
-  private targetRotationY: number = 0 // Target rotation angle in radians
-  private rotationSpeed: number = 0.15 // Rotation interpolation speed (0-1) - slightly slower for more realistic feel
-  private mouseRotationSpeed: number = 0.4 // Faster rotation speed for mouse following
+export class Character3D extends Character {
+  private static readonly WALK_SPEED = 12 // Speed of leg movement (1.5x faster)
   
   // Three.js components
   private scene: THREE.Scene
   private camera: THREE.PerspectiveCamera
-  private renderer: THREE.WebGLRenderer
+  private viewRig: THREE.Group // Camera and directional lights, turned around the character with the view
+  private atlas: CharacterAtlas // Renders the scene (shared with the other characters)
   private character: THREE.Group
   private animationMixer: THREE.AnimationMixer | null = null
+  private animationClip: THREE.AnimationClip | null = null // Animation played by the mixer
   private clock: THREE.Clock
   
   // Leg references for walking animation (Groups that contain the leg meshes)
@@ -41,12 +33,12 @@ export class Character3D extends Container {
   private baseYOffset: number = 0
   
   // For rendering Three.js to PixiJS
-  private threeCanvas: HTMLCanvasElement
-  private threeTexture: Texture
+  private threeTexture: Texture // Region of the atlas
   private threeSprite: Sprite
 
-  constructor() {
+  constructor(atlas: CharacterAtlas = CharacterAtlas.getShared()) {
     super()
+    this.atlas = atlas
     
     // Initialize Three.js components
     this.clock = new THREE.Clock()
@@ -60,27 +52,9 @@ export class Character3D extends Container {
     // Position camera at an angle for isometric view
     this.camera.position.set(8, 12, 8)
     this.camera.lookAt(0, 0, 0)
-    
-    // Initialize rotation state - start at 0 degrees
-    this.currentRotationY = 0
-    this.targetRotationY = 0
-    
-    // Create WebGL renderer
-    this.threeCanvas = document.createElement('canvas')
-    this.threeCanvas.width = 256
-    this.threeCanvas.height = 256
-    this.renderer = new THREE.WebGLRenderer({ 
-      canvas: this.threeCanvas,
-      alpha: true,
-      antialias: true,
-      premultipliedAlpha: false // Important for proper transparency
-    })
-    this.renderer.setSize(256, 256)
-    this.renderer.setPixelRatio(window.devicePixelRatio)
-    this.renderer.shadowMap.enabled = true
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap
-    // Clear with transparent background
-    this.renderer.setClearColor(0x000000, 0) // Transparent clear color
+    this.viewRig = new THREE.Group()
+    this.viewRig.add(this.camera)
+    this.scene.add(this.viewRig)
     
     // Create 3D character
     this.character = this.create3DCharacter()
@@ -96,12 +70,8 @@ export class Character3D extends Container {
     // Add lighting
     this.setupLighting()
     
-    // Render once to initialize the canvas before creating texture
-    this.renderer.setClearColor(0x000000, 0)
-    this.renderer.render(this.scene, this.camera)
-    
-    // Create texture from Three.js renderer canvas
-    this.threeTexture = Texture.from(this.threeCanvas)
+    // Get a region of the atlas (drawn by its next render)
+    this.threeTexture = this.atlas.add(this.scene, this.camera)
     
     // Create sprite from texture
     this.threeSprite = new Sprite(this.threeTexture)
@@ -213,19 +183,20 @@ export class Character3D extends Container {
     directionalLight.castShadow = true
     directionalLight.shadow.mapSize.width = 1024
     directionalLight.shadow.mapSize.height = 1024
-    this.scene.add(directionalLight)
+    this.viewRig.add(directionalLight) // Lit from the same side in every view orientation
     
     // Additional fill light
     const fillLight = new THREE.DirectionalLight(0xffffff, 0.3)
     fillLight.position.set(-5, 5, -5)
-    this.scene.add(fillLight)
+    this.viewRig.add(fillLight)
   }
 
   /**
-   * Render Three.js scene to canvas
-   * Called from update() to keep rendering in sync with PixiJS ticker
+   * Pose the Three.js scene and mark the character's atlas region for rendering
+   * Called from update() to keep rendering in sync with PixiJS ticker (the atlas draws
+   * every character at once in its render())
    */
-  private renderThreeJS() {
+  protected updateAppearance() {
     if (this.animationMixer) {
       const delta = this.clock.getDelta()
       this.animationMixer.update(delta)
@@ -236,367 +207,77 @@ export class Character3D extends Container {
     
     // Animate character when moving (simple bounce)
     const time = this.clock.getElapsedTime()
-    if (this.isMoving) {
-      
-      // Animate legs for walking motion
-      if (this.leftLeg && this.rightLeg) {
-        // Walking animation: alternate leg movement
-        // Use sine wave with phase offset to create alternating motion
-        const walkSpeed = 12 // Speed of leg movement (1.5x faster)
-        const legSwingAngle = Math.PI / 6 // 30 degrees swing
-        
-        // Left leg swings forward when right leg is back, and vice versa
-        this.leftLeg.rotation.x = Math.sin(time * walkSpeed) * legSwingAngle
-        this.rightLeg.rotation.x = Math.sin(time * walkSpeed + Math.PI) * legSwingAngle
-      }
+    if (this.isMoving || this.isWalkingDirectly) {
+      this.poseLegs(time)
     } else {
       // Use base Y offset when not moving
       this.character.position.y = this.baseYOffset
       
       // Reset legs to neutral position when not moving
-      if (this.leftLeg && this.rightLeg) {
-        this.leftLeg.rotation.x = 0
-        this.rightLeg.rotation.x = 0
-      }
+      this.poseLegs(null)
     }
     
-    // Render Three.js scene
-    this.renderer.setClearColor(0x000000, 0)
-    this.renderer.render(this.scene, this.camera)
-    
-    // Update PixiJS texture
-    if (this.threeTexture?.baseTexture) {
-      this.threeTexture.baseTexture.update()
-    }
-  }
-
-  /**
-   * Set the character's position in world coordinates immediately
-   */
-  setPosition(x: number, y: number) {
-    this.currentX = x
-    this.currentY = y
-    this.targetX = x
-    this.targetY = y
-    this.isMoving = false
+    this.atlas.invalidate(this.threeTexture)
   }
 
   /**
-   * Calculate rotation angle from screen-space movement direction
-   * Uses smooth continuous rotation during movement (allows subdirections)
-   * This provides fluid rotation in all 8 directions while moving
+   * Swing the procedural character's legs
+   * @param walkTime Seconds into the walk animation, or null for the neutral position
    */
-  private calculateIsoRotation(dx: number, dy: number): number {
-    // Normalize movement direction
-    const length = Math.sqrt(dx * dx + dy * dy)
-    if (length < 0.1) return this.targetRotationY
-    
-    // Use smooth rotation calculation (same as mouse following)
-    // Calculate actual angle using atan2 for smooth continuous rotation
-    let angle = Math.atan2(dy, dx)
-    
-    // Determine which quadrant/direction we're moving in
-    // In isometric: 
-    // - Bottom-left (dx < 0, dy > 0): correct - keep as is
-    // - Top-right (dx > 0, dy < 0): correct - keep as is
-    // - Top-left (dx < 0, dy < 0): needs clockwise rotation
-    // - Bottom-right (dx > 0, dy > 0): needs clockwise rotation
-    
-    const isTopLeft = dx < 0 && dy < 0
-    const isBottomRight = dx > 0 && dy > 0
-    const isTopRight = dx > 0 && dy < 0
-    const isBottomLeft = dx < 0 && dy > 0
-    
-    const isometricAngle = Math.atan(0.5) // ≈ 26.565° for 2:1 isometric
-    
-    // Apply different offset based on direction
-    if (isTopLeft || isBottomRight) {
-      // These directions need more clockwise rotation
-      // Increase the angle to rotate more clockwise (add more offset)
-      angle += isometricAngle + Math.PI / 6 + Math.PI / 36 // Add 30° + 5° = 35° correction for more clockwise rotation
-    } else if (isTopRight || isBottomLeft) {
-      // These directions are correct - keep current calculation
-      angle += isometricAngle
-    } else {
-      // Edge cases - use default
-      angle += isometricAngle
+  private poseLegs(walkTime: number | null) {
+    if (!this.leftLeg || !this.rightLeg) return
+    if (walkTime === null) {
+      this.leftLeg.rotation.x = 0
+      this.rightLeg.rotation.x = 0
+      return
     }
     
-    // Add 180 degrees (π) so character faces the direction it's looking at
-    // Negate the angle to reverse rotation direction (clockwise movement = clockwise rotation)
-    angle = -angle + Math.PI
+    // Walking animation: alternate leg movement
+    // Use sine wave with phase offset to create alternating motion
+    const legSwingAngle = Math.PI / 6 // 30 degrees swing
     
-    // Normalize to [-π, π]
-    while (angle > Math.PI) angle -= Math.PI * 2
-    while (angle < -Math.PI) angle += Math.PI * 2
-    
-    return angle
+    // Left leg swings forward when right leg is back, and vice versa
+    this.leftLeg.rotation.x = Math.sin(walkTime * Character3D.WALK_SPEED) * legSwingAngle
+    this.rightLeg.rotation.x = Math.sin(walkTime * Character3D.WALK_SPEED + Math.PI) * legSwingAngle
   }
 
   /**
-   * Snap rotation to one of the 4 main isometric directions
-   * Called when character arrives at destination
-   * Uses targetRotationY to find the nearest main direction (towards the target)
+   * Get the length of one walk animation cycle in seconds: the GLTF model's animation,
+   * or one stride of the procedural character's legs
    */
-  private snapToMainDirection(): void {
-    // The 4 main isometric directions: 0°, 90°, 180°, 270°
-    const mainDirections: number[] = [0, Math.PI / 2, Math.PI, 3 * Math.PI / 2]
-    
-    // Find the nearest main direction based on targetRotationY (direction towards target)
-    let nearestDirection: number = mainDirections[0]!
-    let smallestDiff = Math.abs(this.targetRotationY - mainDirections[0]!)
-    
-    // Normalize target rotation for comparison
-    let normalizedTarget = this.targetRotationY
-    while (normalizedTarget < 0) normalizedTarget += Math.PI * 2
-    while (normalizedTarget >= Math.PI * 2) normalizedTarget -= Math.PI * 2
-    
-    for (const direction of mainDirections) {
-      // Calculate difference considering wrap-around
-      const diff1 = Math.abs(normalizedTarget - direction)
-      const diff2 = Math.abs(normalizedTarget - (direction + Math.PI * 2))
-      const diff3 = Math.abs(normalizedTarget - (direction - Math.PI * 2))
-      const diff = Math.min(diff1, diff2, diff3)
-      
-      if (diff < smallestDiff) {
-        smallestDiff = diff
-        nearestDirection = direction
-      }
-    }
-    
-    // Snap to nearest main direction
-    this.targetRotationY = nearestDirection
-    this.currentRotationY = nearestDirection
+  getWalkCycleDuration(): number {
+    return this.animationClip?.duration ?? Math.PI * 2 / Character3D.WALK_SPEED
   }
 
   /**
-   * Move the character smoothly to a target world position
+   * Render a still of the character with another renderer, into its current viewport
+   * (used to bake sprite sheets, see CharacterBaker)
+   * The still is seen from the default view orientation. The next update() poses the
+   * character for the atlas again.
+   * @param rotationY Facing angle in radians
+   * @param walkTime Seconds into the walk animation, or null for the standing pose
    */
-  moveTo(x: number, y: number) {
-    this.targetX = x
-    this.targetY = y
-    this.isMoving = true
-    this.path = [] // Clear path when using direct movement
-    this.currentPathIndex = 0
-    
-    // Calculate target rotation to face the new direction
-    const dx = x - this.currentX
-    const dy = y - this.currentY
-    if (Math.abs(dx) > 0.1 || Math.abs(dy) > 0.1) {
-      this.targetRotationY = this.calculateIsoRotation(dx, dy)
-    }
+  renderStill(renderer: THREE.WebGLRenderer, rotationY: number, walkTime: number | null) {
+    this.character.rotation.y = rotationY
+    this.character.position.y = this.baseYOffset
+    this.poseLegs(walkTime)
+    this.animationMixer?.setTime(walkTime ?? 0)
+    
+    const viewRotation = this.viewRig.rotation.y
+    this.viewRig.rotation.y = 0
+    renderer.render(this.scene, this.camera)
+    this.viewRig.rotation.y = viewRotation
   }
 
   /**
-   * Move the character along a path (array of waypoints)
-   * This is used for pathfinding to navigate around obstacles
-   * @param path Array of waypoints in screen coordinates, or grid coordinates with tileSize
-   * @param tileSizeOrTarget Optional: if number, path is treated as grid coordinates. If object with x/y, it's the final target to face.
-   * @param finalTarget Optional: if tileSizeOrTarget is a number, this can be the final target position to face
+   * Turn the Three.js camera around the character to match the view orientation
+   * The facing angle is relative to the world, so the character keeps facing the same
+   * tiles while the view turns.
+   * @param orientation Quarter turns (fractional while a rotation is animated)
    */
-  moveAlongPath(
-    path: Array<[number, number]> | Array<{ x: number; y: number }>, 
-    tileSizeOrTarget?: number | { x: number; y: number },
-    finalTarget?: { x: number; y: number }
-  ) {
-    if (path.length === 0) return
-    
-    // Determine if tileSizeOrTarget is a number (tileSize) or object (finalTarget)
-    let tileSize: number | undefined
-    if (typeof tileSizeOrTarget === 'number') {
-      tileSize = tileSizeOrTarget
-      this.finalTargetPosition = finalTarget || null
-    } else if (tileSizeOrTarget && typeof tileSizeOrTarget === 'object') {
-      this.finalTargetPosition = tileSizeOrTarget
-    } else {
-      // tileSizeOrTarget is undefined, check if finalTarget is provided
-      this.finalTargetPosition = finalTarget || null
-    }
-    
-    // Convert path to screen coordinates
-    if (tileSize !== undefined && path.length > 0 && Array.isArray(path[0]) && path[0].length === 2) {
-      // Grid coordinates format: Array<[number, number]>
-      this.path = (path as Array<[number, number]>).map(([gridX, gridY]) => ({
-        x: gridX * tileSize + tileSize / 2,
-        y: gridY * tileSize + tileSize / 2
-      }))
-    } else {
-      // Screen coordinates format: Array<{ x: number; y: number }>
-      this.path = (path as Array<{ x: number; y: number }>).map((point) => ({
-        x: point.x,
-        y: point.y
-      }))
-    }
-    
-    this.currentPathIndex = 0
-    this.isMoving = true
-    
-    // Start moving to first waypoint
-    if (this.path.length > 0) {
-      const firstPoint = this.path[0]
-      if (firstPoint) {
-        this.targetX = firstPoint.x
-        this.targetY = firstPoint.y
-      }
-    }
-  }
-
-  /**
-   * Update the character's position and rotation (call this in the game loop)
-   * @param deltaTime Time elapsed since last frame in seconds (from ticker.deltaTime)
-   * Returns true if still moving, false if reached target
-   */
-  update(deltaTime: number = 1/60): boolean {
-    this.updateRotation()
-    this.renderThreeJS()
-
-    if (!this.isMoving) {
-      return false
-    }
-
-    const dx = this.targetX - this.currentX
-    const dy = this.targetY - this.currentY
-    const distance = Math.sqrt(dx * dx + dy * dy)
-
-    // Calculate target rotation based on movement direction
-    if (distance > 0.1) {
-      // If we have a final target position and the movement is not diagonal (pure horizontal or vertical),
-      // orient towards the final target instead of the next waypoint
-      if (this.finalTargetPosition) {
-        const absDx = Math.abs(dx)
-        const absDy = Math.abs(dy)
-        const isDiagonal = absDx > 0.1 && absDy > 0.1
-        
-        // For non-diagonal movement (corridors), orient towards final target
-        if (!isDiagonal) {
-          const finalDx = this.finalTargetPosition.x - this.currentX
-          const finalDy = this.finalTargetPosition.y - this.currentY
-          const finalDistance = Math.sqrt(finalDx * finalDx + finalDy * finalDy)
-          if (finalDistance > 0.1) {
-            this.targetRotationY = this.calculateIsoRotation(finalDx, finalDy)
-          }
-        } else {
-          // For diagonal movement, use movement direction
-          this.targetRotationY = this.calculateIsoRotation(dx, dy)
-        }
-      } else {
-        // No final target, use movement direction
-        this.targetRotationY = this.calculateIsoRotation(dx, dy)
-      }
-    }
-
-    if (distance < 0.1) {
-      this.currentX = this.targetX
-      this.currentY = this.targetY
-      
-      // If following a path, move to next waypoint
-      if (this.path.length > 0 && this.currentPathIndex < this.path.length - 1) {
-        this.currentPathIndex++
-        this.targetX = this.path[this.currentPathIndex]?.x ?? 0
-        this.targetY = this.path[this.currentPathIndex]?.y ?? 0
-        return true // Continue moving to next waypoint
-      } else {
-        // Reached end of path or no path
-        // If there's a final target position, orient character towards it
-        if (this.finalTargetPosition) {
-          const dx = this.finalTargetPosition.x - this.currentX
-          const dy = this.finalTargetPosition.y - this.currentY
-          if (Math.abs(dx) > 0.1 || Math.abs(dy) > 0.1) {
-            this.targetRotationY = this.calculateIsoRotation(dx, dy)
-            // Snap to main direction after calculating rotation towards target
-            this.snapToMainDirection()
-          } else {
-            this.snapToMainDirection()
-          }
-        } else {
-          // Snap rotation to one of the 4 main directions when arriving at destination
-          this.snapToMainDirection()
-        }
-        
-        this.isMoving = false
-        this.path = []
-        this.currentPathIndex = 0
-        this.finalTargetPosition = null
-        return false
-      }
-    }
-
-    // Constant speed movement - move towards target at fixed speed (time-based)
-    const moveDistance = Math.min(this.moveSpeed * deltaTime, distance)
-    const moveX = (dx / distance) * moveDistance
-    const moveY = (dy / distance) * moveDistance
-    
-    this.currentX += moveX
-    this.currentY += moveY
-    
-    return true
-  }
-
-  /**
-   * Rotate character to face a target position (for testing - mouse follow)
-   * Only works when character is not moving
-   * Uses smooth continuous rotation based on actual angle to mouse
-   */
-  rotateTowardsPosition(targetX: number, targetY: number) {
-    if (this.isMoving) return // Don't override rotation when moving
-    
-    const dx = targetX - this.currentX
-    const dy = targetY - this.currentY
-    const length = Math.sqrt(dx * dx + dy * dy)
-    
-    if (length > 0.1) {
-      // Calculate actual angle to mouse using atan2
-      // In isometric view, we need to account for the coordinate system rotation
-      let angle = Math.atan2(dy, dx)
-      
-      // In isometric view, the coordinate system is rotated
-      // Based on isoToScreen: x = (isoX - isoY) * tileSize, y = (isoX + isoY) * tileSize / 2
-      // The screen coordinates are rotated 45 degrees from standard Cartesian
-      // Adjust the angle to align with isometric axes
-      angle += Math.PI / 4
-      
-      // Add 180 degrees (π) so character faces the direction it's looking at
-      // Negate the angle to reverse rotation direction (clockwise mouse = clockwise character)
-      angle = -angle + Math.PI
-      
-      // Normalize to [-π, π]
-      while (angle > Math.PI) angle -= Math.PI * 2
-      while (angle < -Math.PI) angle += Math.PI * 2
-      
-      this.targetRotationY = angle
-    }
-  }
-
-  /**
-   * Smoothly rotate character towards target rotation
-   * Uses faster rotation speed when not moving (mouse following)
-   */
-  private updateRotation() {
-    let current = this.currentRotationY
-    let target = this.targetRotationY
-    let diff = target - current
-    
-    // Normalize to shortest path [-π, π]
-    while (diff > Math.PI) diff -= Math.PI * 2
-    while (diff < -Math.PI) diff += Math.PI * 2
-    
-    // Use faster rotation speed when not moving (for mouse following)
-    const speed = this.isMoving ? this.rotationSpeed : this.mouseRotationSpeed
-    
-    // Smooth interpolation
-    if (Math.abs(diff) < 0.01) {
-      this.currentRotationY = target
-    } else {
-      this.currentRotationY += diff * speed
-    }
-    
-    // Normalize current angle
-    while (this.currentRotationY > Math.PI) this.currentRotationY -= Math.PI * 2
-    while (this.currentRotationY < -Math.PI) this.currentRotationY += Math.PI * 2
-  }
-
-  getPosition(): { x: number; y: number } {
-    return { x: this.currentX, y: this.currentY }
+  setViewRotation(orientation: number) {
+    this.viewAngle = orientation * Math.PI / 2
+    this.viewRig.rotation.y = this.viewAngle
   }
 
   /**
@@ -634,6 +315,7 @@ export class Character3D extends Container {
         this.animationMixer = new THREE.AnimationMixer(this.character)
         const clip = gltf.animations[0]
         if (clip) {
+          this.animationClip = clip
           const action = this.animationMixer.clipAction(clip)
           action.play()
         }
@@ -650,7 +332,7 @@ export class Character3D extends Container {
    * Clean up resources
    */
   destroy() {
-    this.renderer.dispose()
+    this.atlas.remove(this.threeTexture)
     // Clean up Three.js objects
     this.scene.traverse((object: THREE.Object3D) => {
       if (object instanceof THREE.Mesh) {
@@ -665,4 +347,3 @@ export class Character3D extends Container {
     super.destroy()
   }
 }
-
@@ -0,0 +1,163 @@
+import { CanvasSource, Rectangle, Texture } from 'pixi.js'
+import * as THREE from 'three'
+
+/**
+ * A character's region of the atlas
+ */
+interface AtlasSlot {
+  scene: THREE.Scene
+  camera: THREE.Camera
+  texture: Texture // Pixi texture sampling the region
+  isDirty: boolean // Needs rendering in the next render()
+}
+
+/**
+ * Offscreen renderer shared by every 3D character
+ *
+ * Browsers only allow a handful of WebGL contexts (~16), so characters don't get a
+ * renderer each: they all draw their Three.js scene into their own square region of
+ * one canvas, and their Pixi sprite samples that region. Regions are laid out in rows
+ * of COLUMNS; the canvas grows by doubling its rows when every region is taken, and
+ * regions freed by removed characters are reused.
+ *
+ * Characters only mark their region as changed during their update; render() then
+ * draws all changed regions and uploads the canvas to the GPU once per frame.
+ */
+export class CharacterAtlas {
+  static readonly CELL_SIZE = 256 // Side of a region in CSS pixels
+  private static readonly COLUMNS = 4
+  private static shared: CharacterAtlas | null = null
+
+  private renderer: THREE.WebGLRenderer
+  private canvas: HTMLCanvasElement
+  private source: CanvasSource // Pixi texture source of the whole canvas
+  private cellPixels: number // Side of a region in canvas pixels
+  private rows: number = 1
+  private slots: Array<AtlasSlot | null> = [] // Regions by index (row by row), null when free
+
+  constructor() {
+    this.canvas = document.createElement('canvas')
+    this.renderer = new THREE.WebGLRenderer({
+      canvas: this.canvas,
+      alpha: true,
+      antialias: true,
+      premultipliedAlpha: false // Important for proper transparency
+    })
+    this.renderer.setPixelRatio(window.devicePixelRatio)
+    this.renderer.setSize(CharacterAtlas.COLUMNS * CharacterAtlas.CELL_SIZE, this.rows * CharacterAtlas.CELL_SIZE, false)
+    this.renderer.shadowMap.enabled = true
+    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap
+    // Clear with transparent background
+    this.renderer.setClearColor(0x000000, 0) // Transparent clear color
+    this.renderer.setScissorTest(true) // Only clear and draw the region being rendered
+
+    // Regions are as large in pixels as a character's own canvas used to be
+    this.cellPixels = this.canvas.width / CharacterAtlas.COLUMNS
+    this.source = new CanvasSource({ resource: this.canvas })
+  }
+
+  /**
+   * Get the atlas shared by all characters (created on first use)
+   */
+  static getShared(): CharacterAtlas {
+    CharacterAtlas.shared ??= new CharacterAtlas()
+    return CharacterAtlas.shared
+  }
+
+  /**
+   * Give a scene a region of the atlas
+   * Returns the texture of the region (drawn from the next render() on)
+   */
+  add(scene: THREE.Scene, camera: THREE.Camera): Texture {
+    let index = this.slots.indexOf(null)
+    if (index === -1) {
+      index = this.slots.length
+      if (index >= CharacterAtlas.COLUMNS * this.rows) {
+        this.grow()
+      }
+    }
+
+    const texture = new Texture({ source: this.source, frame: this.getFrame(index) })
+    this.slots[index] = { scene, camera, texture, isDirty: true }
+    return texture
+  }
+
+  /**
+   * Free the region of a texture returned by add() (the texture is destroyed)
+   */
+  remove(texture: Texture) {
+    const index = this.slots.findIndex(slot => slot?.texture === texture)
+    if (index === -1) return
+    this.slots[index] = null
+    texture.destroy()
+  }
+
+  /**
+   * Mark the region of a texture returned by add() for rendering
+   */
+  invalidate(texture: Texture) {
+    const slot = this.slots.find(slot => slot?.texture === texture)
+    if (slot) {
+      slot.isDirty = true
+    }
+  }
+
+  /**
+   * Draw every changed region and upload the canvas (call once per frame, after the
+   * characters were updated)
+   */
+  render() {
+    let hasChanges = false
+    const canvasHeight = this.rows * CharacterAtlas.CELL_SIZE
+    this.slots.forEach((slot, index) => {
+      if (!slot?.isDirty) return
+      slot.isDirty = false
+      hasChanges = true
+
+      // Three.js viewports start at the bottom of the canvas, atlas rows at the top
+      const cell = this.getCellOrigin(index)
+      const bottom = canvasHeight - cell.y - CharacterAtlas.CELL_SIZE
+      this.renderer.setViewport(cell.x, bottom, CharacterAtlas.CELL_SIZE, CharacterAtlas.CELL_SIZE)
+      this.renderer.setScissor(cell.x, bottom, CharacterAtlas.CELL_SIZE, CharacterAtlas.CELL_SIZE)
+      this.renderer.render(slot.scene, slot.camera)
+    })
+
+    if (hasChanges) {
+      this.source.update()
+    }
+  }
+
+  /**
+   * Double the rows of the canvas (existing regions keep their place, but are cleared)
+   */
+  private grow() {
+    this.rows *= 2
+    this.renderer.setSize(CharacterAtlas.COLUMNS * CharacterAtlas.CELL_SIZE, this.rows * CharacterAtlas.CELL_SIZE, false)
+    // Region textures follow the resize (their frames are kept, their UVs updated)
+    this.source.resize(this.canvas.width, this.canvas.height)
+    for (const slot of this.slots) {
+      if (slot) {
+        slot.isDirty = true
+      }
+    }
+  }
+
+  /**
+   * Get the top left corner of a region in CSS pixels (Three.js viewport units)
+   */
+  private getCellOrigin(index: number): { x: number; y: number } {
+    return {
+      x: (index % CharacterAtlas.COLUMNS) * CharacterAtlas.CELL_SIZE,
+      y: Math.floor(index / CharacterAtlas.COLUMNS) * CharacterAtlas.CELL_SIZE
+    }
+  }
+
+  /**
+   * Get the frame of a region in canvas pixels (Pixi texture units)
+   */
+  private getFrame(index: number): Rectangle {
+    const cell = this.getCellOrigin(index)
+    const scale = this.cellPixels / CharacterAtlas.CELL_SIZE
+    return new Rectangle(cell.x * scale, cell.y * scale, this.cellPixels, this.cellPixels)
+  }
+}
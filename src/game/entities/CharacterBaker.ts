@@ -0,0 +1,114 @@
+import { CanvasSource, Spritesheet, Texture, type SpritesheetData } from 'pixi.js'
+import * as THREE from 'three'
+import { CharacterAtlas } from './CharacterAtlas'
+import type { Character3D } from './Character3D'
+import { SHEET_TILE_SIZE, type CharacterSheet } from './SpriteCharacter'
+import { FileUtils } from '../utils/FileUtils'
+
+export interface BakeOptions {
+  directions?: number // Facing directions, evenly spaced (default 8)
+  frames?: number // Frames of the walk cycle (default 8)
+  frameSize?: number // Side of a frame in pixels (default 128)
+}
+
+/**
+ * Bakes a 3D character into a directional sprite sheet for SpriteCharacter
+ *
+ * Rendering a Three.js scene per character every frame is too expensive for crowds.
+ * A baked sheet holds stills of the character from evenly spaced facing angles, both
+ * standing and through one walk cycle, so any number of sprite characters can share
+ * it. Stills are rendered with the character's own camera and lights, from the default
+ * view orientation, and laid out one row per direction: the standing still, then the
+ * walk frames.
+ *
+ * Sheets are baked at load time with bake(), or baked once and saved with download()
+ * to ship them as assets.
+ */
+export class CharacterBaker {
+  /**
+   * Render a character's stills into a sprite sheet
+   * The character is scaled for SHEET_TILE_SIZE: bake a character that isn't in the scene
+   * (e.g. a new Character3D, after loadGLTFModel() if it uses a model) and destroy it
+   * afterwards.
+   */
+  static bake(character: Character3D, options: BakeOptions = {}): CharacterSheet {
+    const directions = options.directions ?? 8
+    const frames = options.frames ?? 8
+    const frameSize = options.frameSize ?? 128
+    const cycleDuration = character.getWalkCycleDuration()
+
+    // A renderer of its own for the duration of the bake (the atlas' canvas is in use)
+    const glCanvas = document.createElement('canvas')
+    const renderer = new THREE.WebGLRenderer({
+      canvas: glCanvas,
+      alpha: true,
+      antialias: true,
+      premultipliedAlpha: false,
+      preserveDrawingBuffer: true // Keep the stills until they are copied
+    })
+    renderer.setSize((frames + 1) * frameSize, directions * frameSize, false)
+    renderer.shadowMap.enabled = true
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap
+    renderer.setClearColor(0x000000, 0)
+    renderer.setScissorTest(true)
+    character.updateScale(SHEET_TILE_SIZE)
+
+    const data: SpritesheetData = {
+      frames: {},
+      animations: {},
+      meta: { format: 'RGBA8888', size: { w: glCanvas.width, h: glCanvas.height }, scale: 1 }
+    }
+    for (let direction = 0; direction < directions; direction++) {
+      const rotationY = direction * Math.PI * 2 / directions
+      const walk: string[] = []
+      for (let column = 0; column <= frames; column++) {
+        // Three.js viewports start at the bottom of the canvas, sheet rows at the top
+        const bottom = (directions - direction - 1) * frameSize
+        renderer.setViewport(column * frameSize, bottom, frameSize, frameSize)
+        renderer.setScissor(column * frameSize, bottom, frameSize, frameSize)
+        const walkTime = column === 0 ? null : (column - 1) / frames * cycleDuration
+        character.renderStill(renderer, rotationY, walkTime)
+
+        const name = column === 0 ? `idle_${direction}` : `walk_${direction}_${column - 1}`
+        data.frames[name] = { frame: { x: column * frameSize, y: direction * frameSize, w: frameSize, h: frameSize } }
+        if (column > 0) {
+          walk.push(name)
+        }
+      }
+      data.animations![`idle_${direction}`] = [`idle_${direction}`]
+      data.animations![`walk_${direction}`] = walk
+    }
+
+    // Copy the stills to a plain canvas and free the WebGL context
+    const canvas = document.createElement('canvas')
+    canvas.width = glCanvas.width
+    canvas.height = glCanvas.height
+    canvas.getContext('2d')!.drawImage(glCanvas, 0, 0)
+    renderer.dispose()
+    renderer.forceContextLoss()
+
+    const spritesheet = new Spritesheet(new Texture({ source: new CanvasSource({ resource: canvas }) }), data)
+    spritesheet.parseSync()
+    return {
+      spritesheet,
+      directions,
+      fps: frames / cycleDuration,
+      // A frame shows what an atlas region shows, in frameSize pixels
+      scale: CharacterAtlas.CELL_SIZE * window.devicePixelRatio / frameSize
+    }
+  }
+
+  /**
+   * Save a baked sheet as an image and its spritesheet JSON (<name>.png and <name>.json)
+   */
+  static download(sheet: CharacterSheet, name: string) {
+    const { data, textureSource } = sheet.spritesheet
+    FileUtils.downloadJson({ ...data, meta: { ...data.meta, image: `${name}.png` } }, `${name}.json`)
+    const canvas = textureSource.resource as HTMLCanvasElement
+    canvas.toBlob(blob => {
+      if (blob) {
+        FileUtils.downloadBlob(blob, `${name}.png`)
+      }
+    }, 'image/png')
+  }
+}
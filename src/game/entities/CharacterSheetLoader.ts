@@ -0,0 +1,99 @@
+import { Assets, Spritesheet, Texture } from 'pixi.js'
+import type { CharacterSheet } from './SpriteCharacter'
+
+export interface CharacterSheetOptions {
+  fps?: number // Walk frames per second (default 8)
+  scale?: number // Sprite scale at SHEET_TILE_SIZE (default 1)
+}
+
+// Compass names of the directions, in CharacterSheet order (counterclockwise from the
+// bottom left of the screen)
+const COMPASS_DIRECTIONS: Record<number, string[]> = {
+  4: ['sw', 'se', 'ne', 'nw'],
+  8: ['sw', 's', 'se', 'e', 'ne', 'n', 'nw', 'w']
+}
+
+// "<animation>_<direction>[_<frame>]" at the end of a frame name, with "_", "-" or "/"
+// as separators and an optional extension (e.g. "hero/walk_se_01.png")
+const FRAME_NAME = /(?:^|[_\-/])(idle|walk)[_\-/]([a-z]+|\d+)(?:[_\-/](\d+))?(?:\.\w+)?$/i
+
+/**
+ * Loader for the sprite sheets of sprite characters (TexturePacker JSON)
+ *
+ * Frames are found by name: "walk_<direction>_<frame>" and "idle_<direction>", where the
+ * direction is a screen direction: sw, se, ne and nw for 4 directions (the main
+ * isometric directions), or sw, s, se, e, ne, n, nw and w for 8. Sheets saved by
+ * CharacterBaker.download() name directions by index instead (0 = sw, counterclockwise).
+ * Walk frames are played in the order of their numbers; a direction without an idle
+ * frame stands on its first walk frame.
+ */
+export class CharacterSheetLoader {
+  /**
+   * Load a TexturePacker JSON sheet (and its image) and find its animations
+   */
+  static async load(url: string, options: CharacterSheetOptions = {}): Promise<CharacterSheet> {
+    const spritesheet = await Assets.load<Spritesheet>(url)
+    if (!(spritesheet instanceof Spritesheet)) {
+      throw new Error(`Invalid character sheet "${url}": not a spritesheet`)
+    }
+    return CharacterSheetLoader.parse(spritesheet, options)
+  }
+
+  /**
+   * Sort the frames of a spritesheet into directional animations
+   * The "idle_<direction>" and "walk_<direction>" animations are added to the spritesheet.
+   */
+  static parse(spritesheet: Spritesheet, options: CharacterSheetOptions = {}): CharacterSheet {
+    const frames: Record<'idle' | 'walk', Map<string, Array<{ index: number; texture: Texture }>>> = {
+      idle: new Map(),
+      walk: new Map()
+    }
+    for (const [name, texture] of Object.entries(spritesheet.textures)) {
+      const match = FRAME_NAME.exec(name)
+      if (!match) continue
+      const animation = match[1]!.toLowerCase() as 'idle' | 'walk'
+      const direction = match[2]!.toLowerCase()
+      const list = frames[animation].get(direction) ?? []
+      list.push({ index: Number(match[3] ?? 0), texture })
+      frames[animation].set(direction, list)
+    }
+
+    const names = CharacterSheetLoader.getDirectionNames(Array.from(frames.walk.keys()))
+    names.forEach((name, direction) => {
+      const walk = frames.walk.get(name)!.sort((a, b) => a.index - b.index).map(frame => frame.texture)
+      const idle = frames.idle.get(name)?.sort((a, b) => a.index - b.index).map(frame => frame.texture)
+      spritesheet.animations[`walk_${direction}`] = walk
+      spritesheet.animations[`idle_${direction}`] = idle ?? walk.slice(0, 1)
+    })
+
+    return {
+      spritesheet,
+      directions: names.length,
+      fps: options.fps ?? 8,
+      scale: options.scale ?? 1
+    }
+  }
+
+  /**
+   * Get the direction names of a sheet in CharacterSheet order
+   * @param found Directions with walk frames
+   */
+  private static getDirectionNames(found: string[]): string[] {
+    if (found.length > 0 && found.every(name => /^\d+$/.test(name))) {
+      // Directions by index (baked sheets)
+      const names = Array.from({ length: found.length }, (_, direction) => String(direction))
+      if (names.every(name => found.includes(name))) {
+        return names
+      }
+    } else {
+      const names = COMPASS_DIRECTIONS[found.length]
+      if (names && names.every(name => found.includes(name))) {
+        return names
+      }
+    }
+    throw new Error(
+      `Invalid character sheet: walk frames for directions [${found.join(', ')}] ` +
+      '(expected sw, se, ne, nw or sw, s, se, e, ne, n, nw, w)'
+    )
+  }
+}
@@ -6,6 +6,7 @@ import { IsoUtils } from '../utils/IsoUtils'
  * 
  * This creates a 2D isometric cube that can be placed in a specific tile of the isometric scene.
  * The cube base (socle) is dimensioned exactly like a tile.
+ * Cubes can sit on raised tiles (elevation) and be stacked several levels high.
  */
 export class Cube extends Container {
   private baseGraphics: Graphics
@@ -16,6 +17,9 @@ export class Cube extends Container {
   private isoX: number = 0
   private isoY: number = 0
   private tileSize: number = 64
+  private elevation: number = 0 // Level of the ground the cube sits on
+  private levels: number = 1 // Number of stacked cubes
+  private orientation: number = 0 // View orientation in quarter turns (the cube looks the same from every side)
   
   // Base dimensions (matching tile dimensions exactly)
   private halfWidth: number = 0
@@ -29,7 +33,7 @@ export class Cube extends Container {
   private bottomColor: number = 0x3498db // Bottom face (base) - darker
   private sideColor: number = 0x3498db // Side faces - medium dark
 
-  constructor(isoX: number, isoY: number, tileSize: number, color: number = 0x3498db) {
+  constructor(isoX: number, isoY: number, tileSize: number, color: number = 0x3498db, elevation: number = 0, levels: number = 1) {
     super()
     
     // Enable zIndex sorting for proper rendering order within cube
@@ -38,6 +42,8 @@ export class Cube extends Container {
     this.isoX = isoX
     this.isoY = isoY
     this.tileSize = tileSize
+    this.elevation = elevation
+    this.levels = Math.max(1, levels)
     
     // Set colors (lighter for top, darker for bottom, medium for sides)
     this.topColor = this.lightenColor(color, 0.2)
@@ -75,7 +81,7 @@ export class Cube extends Container {
    * Tiles use: halfWidth = tileSize/2 * 2.0 = tileSize, halfHeight = tileSize/4 * 2.0 = tileSize/2
    */
   private updateBaseSize() {
-    // Match the tile dimensions from IsoScene.createGrid():
+    // Match the tile dimensions from IsoScene.drawTile() and GroundChunk:
     // halfWidth = tileSize / 2
     // halfHeight = tileSize / 4
     // scale = 2.0
@@ -85,8 +91,8 @@ export class Cube extends Container {
     this.halfHeight = this.tileSize / 2 // scaledHalfHeight
     
     // Set cube height (depth in 3D space)
-    // Make it twice as high to look like a real cube
-    this.cubeHeight = this.tileSize * 1.2
+    // One level is as high as an elevation level so stacks line up with raised tiles
+    this.cubeHeight = IsoUtils.getLevelHeight(this.tileSize) * this.levels
   }
 
   /**
@@ -126,43 +132,55 @@ export class Cube extends Container {
     
     // Draw 4 side faces connecting base to socle
     // Each face is a parallelogram connecting corresponding corners
-    
+    // Stacked cubes draw one set of faces per level so the stack reads as separate cubes
+    const levelHeight = this.cubeHeight / this.levels
+    for (let level = 0; level < this.levels; level++) {
+      this.drawSides(-level * levelHeight, -(level + 1) * levelHeight)
+    }
+  }
+
+  /**
+   * Draw the 4 side faces of one cube level between two vertical offsets
+   * @param bottomY Vertical offset of the level's bottom face
+   * @param topY Vertical offset of the level's top face
+   */
+  private drawSides(bottomY: number, topY: number) {
     // Top face (connects top of base to top of socle)
     this.sidesGraphics.poly([
-      0, -this.halfHeight,                    // Base top
-      this.halfWidth, 0,                      // Base right
-      this.halfWidth, depthOffsetY,           // Socle right
-      0, -this.halfHeight + depthOffsetY     // Socle top
+      0, -this.halfHeight + bottomY,          // Base top
+      this.halfWidth, bottomY,                // Base right
+      this.halfWidth, topY,                   // Socle right
+      0, -this.halfHeight + topY              // Socle top
     ])
     this.sidesGraphics.fill(this.sideColor)
     this.sidesGraphics.stroke({ width: 1, color: this.darkenColor(this.sideColor, 0.2) })
     
     // Right face (connects right of base to right of socle)
     this.sidesGraphics.poly([
-      this.halfWidth, 0,                      // Base right
-      0, this.halfHeight,                     // Base bottom
-      0, this.halfHeight + depthOffsetY,      // Socle bottom
-      this.halfWidth, depthOffsetY            // Socle right
+      this.halfWidth, bottomY,                // Base right
+      0, this.halfHeight + bottomY,           // Base bottom
+      0, this.halfHeight + topY,              // Socle bottom
+      this.halfWidth, topY                    // Socle right
     ])
     this.sidesGraphics.fill(this.darkenColor(this.sideColor, 0.1))
     this.sidesGraphics.stroke({ width: 1, color: this.darkenColor(this.sideColor, 0.2) })
     
     // Bottom face (connects bottom of base to bottom of socle)
     this.sidesGraphics.poly([
-      0, this.halfHeight,                     // Base bottom
-      -this.halfWidth, 0,                     // Base left
-      -this.halfWidth, depthOffsetY,          // Socle left
-      0, this.halfHeight + depthOffsetY      // Socle bottom
+      0, this.halfHeight + bottomY,           // Base bottom
+      -this.halfWidth, bottomY,               // Base left
+      -this.halfWidth, topY,                  // Socle left
+      0, this.halfHeight + topY               // Socle bottom
     ])
     this.sidesGraphics.fill(this.darkenColor(this.sideColor, 0.15))
     this.sidesGraphics.stroke({ width: 1, color: this.darkenColor(this.sideColor, 0.2) })
     
     // Left face (connects left of base to left of socle)
     this.sidesGraphics.poly([
-      -this.halfWidth, 0,                     // Base left
-      0, -this.halfHeight,                    // Base top
-      0, -this.halfHeight + depthOffsetY,   // Socle top
-      -this.halfWidth, depthOffsetY           // Socle left
+      -this.halfWidth, bottomY,               // Base left
+      0, -this.halfHeight + bottomY,          // Base top
+      0, -this.halfHeight + topY,             // Socle top
+      -this.halfWidth, topY                   // Socle left
     ])
     this.sidesGraphics.fill(this.darkenColor(this.sideColor, 0.1))
     this.sidesGraphics.stroke({ width: 1, color: this.darkenColor(this.sideColor, 0.2) })
@@ -172,8 +190,8 @@ export class Cube extends Container {
    * Update cube position based on isometric grid coordinates
    */
   private updatePosition() {
-    // Convert isometric grid coordinates to screen coordinates
-    const screenPos = IsoUtils.isoToScreen(this.isoX, this.isoY, this.tileSize)
+    // Convert isometric grid coordinates to screen coordinates (on top of the raised ground)
+    const screenPos = IsoUtils.isoToScreen(this.isoX, this.isoY, this.tileSize, this.elevation, this.orientation)
     
     // Set position in screen coordinates
     this.x = screenPos.x
@@ -222,6 +240,21 @@ export class Cube extends Container {
     return { x: this.x, y: this.y }
   }
 
+  /**
+   * Get the screen Y of the cube's footprint at ground level (used for depth sorting)
+   * Unlike getScreenPosition(), this ignores elevation
+   */
+  getDepthY(): number {
+    return IsoUtils.isoToScreen(this.isoX, this.isoY, this.tileSize, 0, this.orientation).y
+  }
+
+  /**
+   * Get the elevation level the cube sits on and its number of stacked levels
+   */
+  getElevation(): { elevation: number; levels: number } {
+    return { elevation: this.elevation, levels: this.levels }
+  }
+
   /**
    * Check if a point (in world coordinates relative to scene) is inside the cube
    * This checks the entire cube area including base, socle, and sides
@@ -296,6 +329,15 @@ export class Cube extends Container {
     this.updatePosition()
   }
 
+  /**
+   * Move the cube to where its tile is drawn in a view orientation
+   * @param orientation Quarter turns (fractional while a rotation is animated)
+   */
+  setOrientation(orientation: number) {
+    this.orientation = orientation
+    this.updatePosition()
+  }
+
   /**
    * Set cube color
    */
@@ -0,0 +1,118 @@
+import { Graphics, Matrix } from 'pixi.js'
+import { IsoUtils } from '../utils/IsoUtils'
+
+/**
+ * Flat ground tiles of one chunk, drawn as a single batched geometry
+ *
+ * One Graphics per tile costs a display object, a transform and a draw call each;
+ * a chunk's tiles in one Graphics render in a single batch. Tile colors are kept
+ * per tile and the geometry is only rebuilt by update() (at most once per frame, and
+ * only while the chunk is visible). Raised tiles are not part of it: they are depth
+ * sorted with cubes, so the scene draws them one by one.
+ *
+ * Tiles are drawn around the chunk's origin tile, like a tile around its top face
+ * center. While the view rotation is animated the drawn geometry is transformed
+ * instead of rebuilt every frame, and rebuilt once the rotation lands.
+ */
+export class GroundChunk extends Graphics {
+  // First tile of the chunk in isometric grid coordinates
+  private originX: number = 0
+  private originY: number = 0
+  private tileSize: number = 64
+  private orientation: number = 0 // View orientation in quarter turns (fractional while a rotation is animated)
+  private drawnOrientation: number = 0 // Orientation the geometry was built for
+  private tileColors: Map<string, { fill: number; border: number }> = new Map() // Colors by "isoX,isoY"
+  private isDirty: boolean = false // Tiles changed since the geometry was built
+
+  constructor(originX: number, originY: number, tileSize: number, orientation: number = 0) {
+    super()
+    this.originX = originX
+    this.originY = originY
+    this.tileSize = tileSize
+    this.orientation = orientation
+    this.drawnOrientation = orientation
+    this.updatePosition()
+  }
+
+  /**
+   * Set the colors of a tile (drawn at the next update)
+   */
+  setTile(isoX: number, isoY: number, fillColor: number, borderColor: number) {
+    const tileKey = `${isoX},${isoY}`
+    const current = this.tileColors.get(tileKey)
+    if (current && current.fill === fillColor && current.border === borderColor) return
+    this.tileColors.set(tileKey, { fill: fillColor, border: borderColor })
+    this.isDirty = true
+  }
+
+  /**
+   * Move the tiles to where they are drawn in a view orientation
+   * @param orientation Quarter turns (fractional while a rotation is animated)
+   */
+  setOrientation(orientation: number) {
+    this.orientation = orientation
+    if (Number.isInteger(orientation) && orientation !== this.drawnOrientation) {
+      this.isDirty = true
+    }
+    this.updatePosition()
+  }
+
+  /**
+   * Update the tiles' size
+   * Call this when tile size changes
+   */
+  updateScale(newTileSize: number) {
+    this.tileSize = newTileSize
+    this.isDirty = true
+    this.updatePosition()
+  }
+
+  /**
+   * Rebuild the geometry if tiles changed since it was last built
+   */
+  update() {
+    if (!this.isDirty) return
+    this.isDirty = false
+    this.drawnOrientation = this.orientation
+    this.updatePosition()
+
+    // Same diamond as a single tile (see IsoScene.drawTile())
+    const scaledHalfWidth = this.tileSize
+    const scaledHalfHeight = this.tileSize / 2
+
+    this.clear()
+    for (const [tileKey, colors] of this.tileColors) {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      const center = IsoUtils.isoToScreen(isoX - this.originX, isoY - this.originY, this.tileSize, 0, this.drawnOrientation)
+      this.poly([
+        center.x, center.y - scaledHalfHeight, // Top
+        center.x + scaledHalfWidth, center.y, // Right
+        center.x, center.y + scaledHalfHeight, // Bottom
+        center.x - scaledHalfWidth, center.y // Left
+      ])
+      this.fill(colors.fill)
+      this.stroke({ width: 1, color: colors.border })
+    }
+  }
+
+  /**
+   * Place the geometry at the origin tile, turned from the orientation it was built for
+   * to the current one (a plain translation once both are the same)
+   */
+  private updatePosition() {
+    const origin = IsoUtils.isoToScreen(this.originX, this.originY, this.tileSize, 0, this.orientation)
+    if (this.orientation === this.drawnOrientation) {
+      this.setFromMatrix(new Matrix(1, 0, 0, 1, origin.x, origin.y))
+      return
+    }
+
+    // Where the screen axes of the drawn geometry end up in the current orientation
+    const turnAxis = (screenX: number, screenY: number) => {
+      const grid = IsoUtils.screenToIso(screenX, screenY, 1, 0, this.drawnOrientation)
+      return IsoUtils.isoToScreen(grid.x, grid.y, 1, 0, this.orientation)
+    }
+    const xAxis = turnAxis(1, 0)
+    const yAxis = turnAxis(0, 1)
+    this.setFromMatrix(new Matrix(xAxis.x, xAxis.y, yAxis.x, yAxis.y, origin.x, origin.y))
+  }
+}
@@ -0,0 +1,211 @@
+import { Container, Graphics } from 'pixi.js'
+
+/**
+ * Named highlight layers, each with its own set of tiles
+ */
+export type HighlightLayer = 'selection' | 'adjacency' | 'path' | 'range' | 'hover' | 'danger'
+
+export interface HighlightStyle {
+  fill: number
+  alpha: number // Fill opacity (the border is always opaque)
+  border: number
+  priority: number // The highest priority layer of a tile is the one drawn
+}
+
+export const HIGHLIGHT_STYLES: Record<HighlightLayer, HighlightStyle> = {
+  danger: { fill: 0xff3b30, alpha: 1, border: 0xcc2f26, priority: 5 }, // Unreachable target
+  selection: { fill: 0xffff00, alpha: 1, border: 0xffd700, priority: 4 }, // Target tile
+  hover: { fill: 0xffffff, alpha: 0.35, border: 0xffffff, priority: 3 }, // Tile under the pointer
+  adjacency: { fill: 0x00ff00, alpha: 1, border: 0x00cc00, priority: 2 }, // Free tiles around the target
+  path: { fill: 0xffffff, alpha: 0.2, border: 0xdddddd, priority: 1 }, // Tiles of the previewed route
+  range: { fill: 0x0a84ff, alpha: 0.25, border: 0x0a84ff, priority: 0 } // Tiles within reach
+}
+
+/**
+ * Tile highlights drawn over the ground, in named layers
+ *
+ * Layers are set and cleared independently by tile coordinate; the tiles themselves
+ * are never redrawn. When several layers hold the same tile only the one with the
+ * highest priority is drawn (e.g. the target stays yellow while the path preview
+ * goes through it). Each highlighted tile gets one mark: a diamond drawn around its
+ * origin and placed by the scene, which moves marks on raised tiles out of the
+ * ground and depth sorts them with the rest of the world.
+ */
+export class HighlightOverlay {
+  private parent: Container // Container new marks are added to
+  private placeMark: (mark: Graphics, isoX: number, isoY: number) => void // Positions and sorts a mark (and may move it to another container)
+  private tileSize: number = 64
+  private layers: Map<HighlightLayer, Set<string>> = new Map() // Tiles of each layer by "isoX,isoY"
+  private marks: Map<string, { mark: Graphics; layer: HighlightLayer }> = new Map() // Drawn marks by "isoX,isoY"
+  private freeMarks: Graphics[] = [] // Marks removed from tiles, reused for the next ones
+
+  constructor(parent: Container, tileSize: number, placeMark: (mark: Graphics, isoX: number, isoY: number) => void) {
+    this.parent = parent
+    this.tileSize = tileSize
+    this.placeMark = placeMark
+    for (const layer of Object.keys(HIGHLIGHT_STYLES) as HighlightLayer[]) {
+      this.layers.set(layer, new Set())
+    }
+  }
+
+  /**
+   * Add a tile to a layer
+   */
+  set(layer: HighlightLayer, isoX: number, isoY: number) {
+    this.layers.get(layer)!.add(`${isoX},${isoY}`)
+    this.refreshTile(isoX, isoY)
+  }
+
+  /**
+   * Remove a tile from a layer
+   */
+  unset(layer: HighlightLayer, isoX: number, isoY: number) {
+    if (this.layers.get(layer)!.delete(`${isoX},${isoY}`)) {
+      this.refreshTile(isoX, isoY)
+    }
+  }
+
+  /**
+   * Replace all the tiles of a layer
+   * Only the tiles added to or removed from the layer are refreshed.
+   */
+  setTiles(layer: HighlightLayer, tiles: Array<{ isoX: number; isoY: number }>) {
+    const current = this.layers.get(layer)!
+    const next = new Set(tiles.map(({ isoX, isoY }) => `${isoX},${isoY}`))
+    for (const tileKey of Array.from(current)) {
+      if (!next.has(tileKey)) {
+        current.delete(tileKey)
+        const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+        this.refreshTile(isoX, isoY)
+      }
+    }
+    for (const { isoX, isoY } of tiles) {
+      if (!current.has(`${isoX},${isoY}`)) {
+        this.set(layer, isoX, isoY)
+      }
+    }
+  }
+
+  /**
+   * Remove every tile of a layer
+   */
+  clear(layer: HighlightLayer) {
+    const tiles = this.layers.get(layer)!
+    const tileKeys = Array.from(tiles)
+    tiles.clear()
+    for (const tileKey of tileKeys) {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      this.refreshTile(isoX, isoY)
+    }
+  }
+
+  /**
+   * Remove every tile of every layer
+   */
+  clearAll() {
+    for (const layer of this.layers.keys()) {
+      this.clear(layer)
+    }
+  }
+
+  /**
+   * Remove the tiles of a rectangle from every layer (e.g. an unloaded chunk)
+   */
+  clearArea(minX: number, minY: number, maxX: number, maxY: number) {
+    for (const tiles of this.layers.values()) {
+      for (const tileKey of Array.from(tiles)) {
+        const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+        if (isoX >= minX && isoX <= maxX && isoY >= minY && isoY <= maxY) {
+          tiles.delete(tileKey)
+          this.refreshTile(isoX, isoY)
+        }
+      }
+    }
+  }
+
+  has(layer: HighlightLayer, isoX: number, isoY: number): boolean {
+    return this.layers.get(layer)!.has(`${isoX},${isoY}`)
+  }
+
+  /**
+   * Get the layer drawn on a tile (null if the tile isn't highlighted)
+   */
+  getLayerAt(isoX: number, isoY: number): HighlightLayer | null {
+    return this.marks.get(`${isoX},${isoY}`)?.layer ?? null
+  }
+
+  /**
+   * Place every mark again (after the view rotated)
+   */
+  relayout() {
+    for (const [tileKey, { mark }] of this.marks) {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      this.placeMark(mark, isoX, isoY)
+    }
+  }
+
+  /**
+   * Update the marks' size
+   * Call this when tile size changes
+   */
+  updateScale(newTileSize: number) {
+    this.tileSize = newTileSize
+    for (const [tileKey, { mark, layer }] of this.marks) {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      this.drawMark(mark, layer)
+      this.placeMark(mark, isoX, isoY)
+    }
+  }
+
+  /**
+   * Draw the highest priority layer holding a tile, or remove its mark if none does
+   */
+  private refreshTile(isoX: number, isoY: number) {
+    const tileKey = `${isoX},${isoY}`
+    let top: HighlightLayer | null = null
+    for (const [layer, tiles] of this.layers) {
+      if (tiles.has(tileKey) && (top === null || HIGHLIGHT_STYLES[layer].priority > HIGHLIGHT_STYLES[top].priority)) {
+        top = layer
+      }
+    }
+
+    const current = this.marks.get(tileKey)
+    if (!top) {
+      if (current) {
+        current.mark.removeFromParent()
+        this.freeMarks.push(current.mark)
+        this.marks.delete(tileKey)
+      }
+      return
+    }
+    if (current?.layer === top) return
+
+    const mark = current?.mark ?? this.freeMarks.pop() ?? new Graphics()
+    this.drawMark(mark, top)
+    this.marks.set(tileKey, { mark, layer: top })
+    if (!current) {
+      mark.eventMode = 'none' // Never intercept clicks meant for the tiles
+      this.parent.addChild(mark)
+      this.placeMark(mark, isoX, isoY)
+    }
+  }
+
+  /**
+   * Draw a mark in a layer's style: a diamond the size of a tile's top face
+   */
+  private drawMark(mark: Graphics, layer: HighlightLayer) {
+    const style = HIGHLIGHT_STYLES[layer]
+    const scaledHalfWidth = this.tileSize
+    const scaledHalfHeight = this.tileSize / 2
+
+    mark.clear()
+    mark.poly([
+      0, -scaledHalfHeight, // Top
+      scaledHalfWidth, 0, // Right
+      0, scaledHalfHeight, // Bottom
+      -scaledHalfWidth, 0 // Left
+    ])
+    mark.fill({ color: style.fill, alpha: style.alpha })
+    mark.stroke({ width: 1, color: style.border })
+  }
+}
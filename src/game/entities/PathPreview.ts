@@ -0,0 +1,117 @@
+import { Container, Graphics, Text } from 'pixi.js'
+
+/**
+ * Path preview overlay
+ *
+ * Shows the route the character would take before a move is confirmed: a dotted
+ * line through the waypoints (in scene coordinates, already raised by the surface
+ * elevation) with the step count at the end, or a red cross on a tile that can't
+ * be reached. Paths that only get close to an unreachable target are orange.
+ */
+export class PathPreview extends Container {
+  private lineGraphics: Graphics = new Graphics()
+  private stepLabel: Text
+  private tileSize: number = 64
+
+  // Dotted line settings (relative to the tile size)
+  private static readonly DOT_SPACING = 0.25
+  private static readonly DOT_RADIUS = 0.05
+  private static readonly PATH_COLOR = 0xffffff
+  private static readonly PARTIAL_PATH_COLOR = 0xff9f0a
+  private static readonly UNREACHABLE_COLOR = 0xff3b30
+
+  constructor(tileSize: number) {
+    super()
+    this.tileSize = tileSize
+    this.eventMode = 'none' // Never intercept clicks meant for the tiles
+    this.stepLabel = new Text({
+      text: '',
+      style: {
+        fontFamily: 'sans-serif',
+        fontSize: 14,
+        fontWeight: 'bold',
+        fill: PathPreview.PATH_COLOR,
+        stroke: { color: 0x000000, width: 3 }
+      }
+    })
+    this.stepLabel.anchor.set(0.5, 1)
+    this.addChild(this.lineGraphics)
+    this.addChild(this.stepLabel)
+    this.visible = false
+  }
+
+  /**
+   * Show a path through the given points with its number of steps
+   * A partial path only gets close to an unreachable target and is drawn in orange.
+   */
+  showPath(points: Array<{ x: number; y: number }>, steps: number, partial: boolean = false) {
+    this.lineGraphics.clear()
+    const first = points[0]
+    const last = points[points.length - 1]
+    if (!first || !last) {
+      this.hide()
+      return
+    }
+
+    const color = partial ? PathPreview.PARTIAL_PATH_COLOR : PathPreview.PATH_COLOR
+
+    // Evenly spaced dots along each segment (the spacing carries over between segments)
+    const spacing = this.tileSize * PathPreview.DOT_SPACING
+    const radius = Math.max(1.5, this.tileSize * PathPreview.DOT_RADIUS)
+    let offset = 0
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1]!
+      const to = points[i]!
+      const length = Math.hypot(to.x - from.x, to.y - from.y)
+      for (; offset < length; offset += spacing) {
+        const t = offset / length
+        this.lineGraphics.circle(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, radius)
+      }
+      offset -= length
+    }
+    this.lineGraphics.fill({ color, alpha: 0.85 })
+
+    // Ring on the destination
+    this.lineGraphics.circle(last.x, last.y, radius * 2.5)
+    this.lineGraphics.stroke({ width: 2, color, alpha: 0.9 })
+
+    const stepText = steps === 1 ? '1 step' : `${steps} steps`
+    this.setLabel(partial ? `${stepText} (no route, closest tile)` : stepText, color, last)
+    this.visible = true
+  }
+
+  /**
+   * Mark a tile center as unreachable
+   */
+  showUnreachable(x: number, y: number) {
+    const size = this.tileSize * 0.3
+    this.lineGraphics.clear()
+    this.lineGraphics.moveTo(x - size, y - size / 2)
+    this.lineGraphics.lineTo(x + size, y + size / 2)
+    this.lineGraphics.moveTo(x + size, y - size / 2)
+    this.lineGraphics.lineTo(x - size, y + size / 2)
+    this.lineGraphics.stroke({ width: 3, color: PathPreview.UNREACHABLE_COLOR })
+
+    this.setLabel('Unreachable', PathPreview.UNREACHABLE_COLOR, { x, y })
+    this.visible = true
+  }
+
+  hide() {
+    this.lineGraphics.clear()
+    this.visible = false
+  }
+
+  /**
+   * Update the dot size and label offset for a new tile size
+   */
+  updateScale(tileSize: number) {
+    this.tileSize = tileSize
+    this.hide()
+  }
+
+  private setLabel(text: string, color: number, position: { x: number; y: number }) {
+    this.stepLabel.text = text
+    this.stepLabel.style.fill = color
+    this.stepLabel.position.set(position.x, position.y - this.tileSize * 0.4)
+  }
+}
@@ -0,0 +1,245 @@
+import { Container, Graphics } from 'pixi.js'
+import { IsoUtils } from '../utils/IsoUtils'
+import { RAMP_DIRECTION_OFFSETS, type RampDirection, type RampKind } from '../maps/MapData'
+
+/**
+ * Isometric ramp or stairs block using PixiJS Graphics
+ *
+ * Sits on a tile like a Cube and climbs exactly one level towards its direction,
+ * connecting the tile's ground elevation to the next level.
+ * Ramps are drawn as a smooth slope, stairs as a few steps.
+ */
+export class Ramp extends Container {
+  private graphics: Graphics
+
+  // Position in isometric grid coordinates
+  private isoX: number = 0
+  private isoY: number = 0
+  private tileSize: number = 64
+  private elevation: number = 0 // Level of the ground the ramp sits on
+  private direction: RampDirection
+  private kind: RampKind
+  private stepCount: number = 4 // Number of steps drawn for stairs
+  private orientation: number = 0 // View orientation in quarter turns
+
+  // Colors for different faces
+  private topColor: number = 0x9e9e9e // Walkable surface - lighter
+  private sideColor: number = 0x9e9e9e // Side faces - darker
+
+  constructor(isoX: number, isoY: number, tileSize: number, direction: RampDirection, kind: RampKind = 'ramp', color: number = 0x9e9e9e, elevation: number = 0) {
+    super()
+
+    this.isoX = isoX
+    this.isoY = isoY
+    this.tileSize = tileSize
+    this.direction = direction
+    this.kind = kind
+    this.elevation = elevation
+
+    this.topColor = this.lightenColor(color, 0.1)
+    this.sideColor = this.darkenColor(color, 0.2)
+
+    this.graphics = new Graphics()
+    this.addChild(this.graphics)
+
+    this.draw()
+    this.updatePosition()
+  }
+
+  /**
+   * Get the screen offset (from the tile center) of a point of the tile
+   * @param u Offset along the view's isoX (-0.5 to 0.5)
+   * @param v Offset along the view's isoY (-0.5 to 0.5)
+   * @param rise Height above the tile in levels
+   */
+  private point(u: number, v: number, rise: number): [number, number] {
+    return [
+      (u - v) * this.tileSize,
+      (u + v) * this.tileSize / 2 - rise * IsoUtils.getLevelHeight(this.tileSize)
+    ]
+  }
+
+  /**
+   * Draw the ramp or the stairs
+   */
+  private draw() {
+    this.graphics.clear()
+    if (this.kind === 'stairs') {
+      this.drawStairs()
+    } else {
+      this.drawRamp()
+    }
+  }
+
+  /**
+   * Get the direction the block climbs towards as seen in the view (rotated with it)
+   * Drawing works in view space, where the faces towards +u and +v face the camera.
+   */
+  private getViewOffset(): { dx: number; dy: number } {
+    const { dx, dy } = RAMP_DIRECTION_OFFSETS[this.direction]
+    const rotated = IsoUtils.rotateGrid(dx, dy, Math.round(this.orientation))
+    return { dx: Math.round(rotated.x), dy: Math.round(rotated.y) }
+  }
+
+  /**
+   * Draw a smooth slope: the surface corners on the high side are raised by one level
+   */
+  private drawRamp() {
+    const { dx, dy } = this.getViewOffset()
+    // Corners on the side the ramp climbs towards are one level up
+    const rise = (u: number, v: number) => (u * dx + v * dy > 0 ? 1 : 0)
+
+    // Right face (along +u) and left face (along +v) are the ones facing the camera
+    this.drawFace(0.5, -0.5, 0.5, 0.5, rise(0.5, -0.5), rise(0.5, 0.5), this.darkenColor(this.sideColor, 0.1))
+    this.drawFace(0.5, 0.5, -0.5, 0.5, rise(0.5, 0.5), rise(-0.5, 0.5), this.darkenColor(this.sideColor, 0.15))
+
+    // Sloped walkable surface
+    this.graphics.poly([
+      ...this.point(-0.5, -0.5, rise(-0.5, -0.5)), // Top
+      ...this.point(0.5, -0.5, rise(0.5, -0.5)),   // Right
+      ...this.point(0.5, 0.5, rise(0.5, 0.5)),     // Bottom
+      ...this.point(-0.5, 0.5, rise(-0.5, 0.5))    // Left
+    ])
+    this.graphics.fill(this.topColor)
+    this.graphics.stroke({ width: 1, color: this.darkenColor(this.topColor, 0.2) })
+  }
+
+  /**
+   * Draw stairs as a row of boxes of increasing height, back to front
+   */
+  private drawStairs() {
+    const { dx, dy } = this.getViewOffset()
+    const steps = Array.from({ length: this.stepCount }, (_, i) => i)
+    // Steps climbing towards the camera (+u or +v) are drawn lowest first
+    if (dx + dy < 0) steps.reverse()
+
+    for (const step of steps) {
+      // Slice of the tile along the climbing axis (from the low side)
+      const start = -0.5 + step / this.stepCount
+      const end = -0.5 + (step + 1) / this.stepCount
+      const [from, to] = dx + dy > 0 ? [start, end] : [-end, -start]
+      const height = (step + 1) / this.stepCount
+      if (dx !== 0) {
+        this.drawBox(from, to, -0.5, 0.5, height)
+      } else {
+        this.drawBox(-0.5, 0.5, from, to, height)
+      }
+    }
+  }
+
+  /**
+   * Draw a box standing on the tile (visible faces only)
+   */
+  private drawBox(u0: number, u1: number, v0: number, v1: number, height: number) {
+    this.drawFace(u1, v0, u1, v1, height, height, this.darkenColor(this.sideColor, 0.1))
+    this.drawFace(u1, v1, u0, v1, height, height, this.darkenColor(this.sideColor, 0.15))
+    this.graphics.poly([
+      ...this.point(u0, v0, height), // Top
+      ...this.point(u1, v0, height), // Right
+      ...this.point(u1, v1, height), // Bottom
+      ...this.point(u0, v1, height)  // Left
+    ])
+    this.graphics.fill(this.topColor)
+    this.graphics.stroke({ width: 1, color: this.darkenColor(this.topColor, 0.2) })
+  }
+
+  /**
+   * Draw a vertical face between two points of the tile, from the ground up to their rise
+   */
+  private drawFace(u0: number, v0: number, u1: number, v1: number, rise0: number, rise1: number, color: number) {
+    if (rise0 <= 0 && rise1 <= 0) return // Flat edge, nothing to draw
+    this.graphics.poly([
+      ...this.point(u0, v0, 0),
+      ...this.point(u1, v1, 0),
+      ...this.point(u1, v1, rise1),
+      ...this.point(u0, v0, rise0)
+    ])
+    this.graphics.fill(color)
+    this.graphics.stroke({ width: 1, color: this.darkenColor(color, 0.2) })
+  }
+
+  /**
+   * Update ramp position based on isometric grid coordinates
+   */
+  private updatePosition() {
+    // Convert isometric grid coordinates to screen coordinates (on top of the raised ground)
+    const screenPos = IsoUtils.isoToScreen(this.isoX, this.isoY, this.tileSize, this.elevation, this.orientation)
+    this.x = screenPos.x
+    this.y = screenPos.y
+  }
+
+  /**
+   * Lighten a color by a percentage
+   */
+  private lightenColor(color: number, amount: number): number {
+    const r = Math.min(255, ((color >> 16) & 0xFF) + (255 * amount))
+    const g = Math.min(255, ((color >> 8) & 0xFF) + (255 * amount))
+    const b = Math.min(255, (color & 0xFF) + (255 * amount))
+    return (Math.floor(r) << 16) | (Math.floor(g) << 8) | Math.floor(b)
+  }
+
+  /**
+   * Darken a color by a percentage
+   */
+  private darkenColor(color: number, amount: number): number {
+    const r = Math.max(0, ((color >> 16) & 0xFF) * (1 - amount))
+    const g = Math.max(0, ((color >> 8) & 0xFF) * (1 - amount))
+    const b = Math.max(0, (color & 0xFF) * (1 - amount))
+    return (Math.floor(r) << 16) | (Math.floor(g) << 8) | Math.floor(b)
+  }
+
+  /**
+   * Get the isometric grid coordinates of this ramp
+   */
+  getIsoPosition(): { isoX: number; isoY: number } {
+    return { isoX: this.isoX, isoY: this.isoY }
+  }
+
+  /**
+   * Get the screen Y of the ramp's footprint at ground level (used for depth sorting)
+   */
+  getDepthY(): number {
+    return IsoUtils.isoToScreen(this.isoX, this.isoY, this.tileSize, 0, this.orientation).y
+  }
+
+  getDirection(): RampDirection {
+    return this.direction
+  }
+
+  getKind(): RampKind {
+    return this.kind
+  }
+
+  /**
+   * Update ramp scale based on tile size
+   * Call this when tile size changes
+   */
+  updateScale(newTileSize: number) {
+    this.tileSize = newTileSize
+    this.draw()
+    this.updatePosition()
+  }
+
+  /**
+   * Move the block to where its tile is drawn in a view orientation
+   * The block is redrawn once the rotation is past halfway, so its slope keeps facing the
+   * right way on screen.
+   * @param orientation Quarter turns (fractional while a rotation is animated)
+   */
+  setOrientation(orientation: number) {
+    const redraw = Math.round(orientation) !== Math.round(this.orientation)
+    this.orientation = orientation
+    if (redraw) {
+      this.draw()
+    }
+    this.updatePosition()
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy() {
+    this.graphics.destroy()
+    super.destroy()
+  }
+}
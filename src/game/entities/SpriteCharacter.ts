@@ -0,0 +1,97 @@
+import { AnimatedSprite, Spritesheet, Texture } from 'pixi.js'
+import { Character } from './Character'
+
+/**
+ * Tile size character sheets are drawn for (CharacterSheet.scale applies at this size)
+ */
+export const SHEET_TILE_SIZE = 64
+
+/**
+ * Directional animations of a sprite character
+ *
+ * Direction d shows the character at the facing angle d * 2π / directions, seen from
+ * the default view orientation (0 faces the bottom left of the screen, angles turn
+ * counterclockwise as seen from above, like Character.getRotation()).
+ */
+export interface CharacterSheet {
+  spritesheet: Spritesheet // Animations "idle_<direction>" and "walk_<direction>"
+  directions: number // Facing directions, evenly spaced
+  fps: number // Walk frames per second
+  scale: number // Sprite scale at SHEET_TILE_SIZE
+}
+
+/**
+ * Character entity drawn from a directional sprite sheet (baked by CharacterBaker or
+ * loaded by CharacterSheetLoader)
+ *
+ * Moves and turns exactly like Character3D, but only swaps the texture of one sprite:
+ * the frame of the direction closest to the facing angle (relative to the view, so the
+ * character keeps facing the same tiles while the view turns), standing still or
+ * stepping through the walk cycle while moving. Cheap enough for crowds; the sheet is
+ * shared by every character using it.
+ */
+export class SpriteCharacter extends Character {
+  private sheet: CharacterSheet
+  private sprite: AnimatedSprite
+  private animation: string = '' // Name of the animation being played
+  private walkTime: number = 0 // Seconds into the walk cycle
+
+  constructor(sheet: CharacterSheet) {
+    super()
+    this.sheet = sheet
+    // Frames may carry their own anchor (where the character stands), centered otherwise
+    this.sprite = new AnimatedSprite({ textures: this.getAnimation('idle_0'), autoUpdate: false, updateAnchor: true })
+    if (!this.sprite.texture.defaultAnchor) {
+      this.sprite.anchor.set(0.5, 0.5)
+    }
+    this.sprite.scale.set(sheet.scale)
+    this.addChild(this.sprite)
+  }
+
+  /**
+   * Show the frame of the current direction and step (called from update())
+   * @param deltaTime Real seconds since the last frame (the sheet's fps is in real time)
+   */
+  protected updateAppearance(deltaTime: number) {
+    const isWalking = this.isMoving || this.isWalkingDirectly
+    const animation = `${isWalking ? 'walk' : 'idle'}_${this.getDirection()}`
+    if (animation !== this.animation) {
+      this.animation = animation
+      this.sprite.textures = this.getAnimation(animation)
+    }
+
+    // Keep the walk cycle going across direction changes, restart it when stopping
+    // (wrapped to one cycle so the time stays precise on long walks)
+    const cycleDuration = this.sprite.totalFrames / this.sheet.fps
+    this.walkTime = isWalking ? (this.walkTime + deltaTime) % cycleDuration : 0
+    this.sprite.gotoAndStop(Math.floor(this.walkTime * this.sheet.fps) % this.sprite.totalFrames)
+  }
+
+  /**
+   * Get the sheet direction closest to the facing angle as seen in the current view
+   */
+  private getDirection(): number {
+    const step = Math.PI * 2 / this.sheet.directions
+    const direction = Math.round((this.currentRotationY - this.viewAngle) / step) % this.sheet.directions
+    return (direction + this.sheet.directions) % this.sheet.directions
+  }
+
+  /**
+   * Get the frames of an animation of the sheet
+   */
+  private getAnimation(name: string): Texture[] {
+    const textures = this.sheet.spritesheet.animations[name]
+    if (!textures) {
+      throw new Error(`Character sheet has no animation "${name}"`)
+    }
+    return textures
+  }
+
+  /**
+   * Update character scale based on tile size
+   * Scales the character proportionally to match the tile size
+   */
+  updateScale(tileSize: number) {
+    this.sprite.scale.set(this.sheet.scale * tileSize / SHEET_TILE_SIZE)
+  }
+}
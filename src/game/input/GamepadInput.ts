@@ -0,0 +1,80 @@
+import { IsoUtils } from '../utils/IsoUtils'
+
+// Stick deflection ignored around the center (worn sticks never rest exactly at 0)
+const STICK_DEAD_ZONE = 0.2
+
+/**
+ * Gamepad state for direct character movement and button presses
+ *
+ * The Gamepad API has no events for sticks and buttons, so the first connected
+ * gamepad is polled once per frame with update(). The left stick walks along the
+ * screen in any direction: its deflection is converted to grid coordinates with
+ * the isometric projection, so pushing the stick up walks up on screen.
+ */
+export class GamepadInput {
+  private stick: { x: number; y: number } = { x: 0, y: 0 } // Left stick in screen directions (y down)
+  private buttons: boolean[] = [] // Buttons held during the last update
+  private pressed: number[] = [] // Buttons pressed since the previous update
+
+  /**
+   * Read the current state of the first connected gamepad (call once per frame)
+   */
+  update() {
+    const gamepad = this.getGamepad()
+    const buttons = gamepad?.buttons.map(button => button.pressed) ?? []
+    
+    this.pressed = []
+    buttons.forEach((held, index) => {
+      if (held && !this.buttons[index]) {
+        this.pressed.push(index)
+      }
+    })
+    this.buttons = buttons
+    
+    // Rescale the deflection outside the dead zone to 0..1 so slow walking starts smoothly
+    const x = gamepad?.axes[0] ?? 0
+    const y = gamepad?.axes[1] ?? 0
+    const deflection = Math.min(1, Math.hypot(x, y))
+    if (deflection <= STICK_DEAD_ZONE) {
+      this.stick = { x: 0, y: 0 }
+    } else {
+      const scale = (deflection - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE) / Math.hypot(x, y)
+      this.stick = { x: x * scale, y: y * scale }
+    }
+  }
+
+  /**
+   * Get the direction the stick walks in, in grid coordinates
+   * Returns { x: 0, y: 0 } when the stick rests in its dead zone
+   */
+  getDirection(): { x: number; y: number } {
+    if (this.stick.x === 0 && this.stick.y === 0) return { x: 0, y: 0 }
+    return IsoUtils.screenToIso(this.stick.x, this.stick.y, 1)
+  }
+
+  /**
+   * Get how far the stick is pushed, from 0 (dead zone) to 1 (fully)
+   */
+  getStickAmount(): number {
+    return Math.hypot(this.stick.x, this.stick.y)
+  }
+
+  /**
+   * Get the buttons pressed since the previous update
+   */
+  getPressedButtons(): number[] {
+    return this.pressed
+  }
+
+  /**
+   * Check whether a button is held down
+   */
+  isHeld(button: number): boolean {
+    return this.buttons[button] ?? false
+  }
+
+  private getGamepad(): Gamepad | null {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return null
+    return navigator.getGamepads().find((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected) ?? null
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Named actions the player can trigger, independent of the device
+ */
+export type InputAction =
+  | 'move-to'
+  | 'interact'
+  | 'cancel'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'pan'
+  | 'recenter'
+  | 'rotate-left'
+  | 'rotate-right'
+  | 'walk-up'
+  | 'walk-down'
+  | 'walk-left'
+  | 'walk-right'
+  | 'next-cube'
+  | 'previous-cube'
+
+/**
+ * Bindings of every action
+ *
+ * A binding names one raw input:
+ * - "Key:<code>" for a keyboard key (KeyboardEvent.code, so the layout doesn't matter)
+ * - "Mouse:<button>" for a mouse button (0 left, 1 middle, 2 right)
+ * - "Wheel:Up" / "Wheel:Down" for the mouse wheel
+ * - "Gamepad:<button>" for a button of the standard gamepad mapping
+ * - "Touch:Tap" / "Touch:Drag" for one-finger touch gestures
+ */
+export type InputBindings = Record<InputAction, string[]>
+
+export const INPUT_ACTIONS: Record<InputAction, string> = {
+  'move-to': 'Move to',
+  'interact': 'Interact',
+  'cancel': 'Cancel',
+  'zoom-in': 'Zoom in',
+  'zoom-out': 'Zoom out',
+  'pan': 'Pan',
+  'recenter': 'Recenter camera',
+  'rotate-left': 'Rotate view left',
+  'rotate-right': 'Rotate view right',
+  'walk-up': 'Walk up',
+  'walk-down': 'Walk down',
+  'walk-left': 'Walk left',
+  'walk-right': 'Walk right',
+  'next-cube': 'Next cube',
+  'previous-cube': 'Previous cube'
+}
+
+// Actions aimed at a point of the canvas, which only pointer bindings can provide
+export const POINTER_ACTIONS: InputAction[] = ['move-to', 'pan']
+
+// Actions read as held state every frame instead of being triggered once
+export const HELD_ACTIONS: InputAction[] = ['walk-up', 'walk-down', 'walk-left', 'walk-right']
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  'move-to': ['Mouse:0', 'Touch:Tap'],
+  'interact': ['Key:KeyE', 'Key:Space', 'Gamepad:0'],
+  'cancel': ['Key:Escape', 'Gamepad:1'],
+  'zoom-in': ['Wheel:Up', 'Key:Equal', 'Key:NumpadAdd', 'Gamepad:7'],
+  'zoom-out': ['Wheel:Down', 'Key:Minus', 'Key:NumpadSubtract', 'Gamepad:6'],
+  'pan': ['Mouse:2', 'Mouse:1', 'Touch:Drag'],
+  'recenter': ['Key:KeyC', 'Key:Home', 'Gamepad:3'],
+  'rotate-left': ['Key:KeyZ', 'Gamepad:10'],
+  'rotate-right': ['Key:KeyX', 'Gamepad:11'],
+  'walk-up': ['Key:KeyW', 'Key:ArrowUp', 'Gamepad:12'],
+  'walk-down': ['Key:KeyS', 'Key:ArrowDown', 'Gamepad:13'],
+  'walk-left': ['Key:KeyA', 'Key:ArrowLeft', 'Gamepad:14'],
+  'walk-right': ['Key:KeyD', 'Key:ArrowRight', 'Gamepad:15'],
+  'next-cube': ['Key:KeyR', 'Gamepad:5'],
+  'previous-cube': ['Key:KeyQ', 'Gamepad:4']
+}
+
+// Names of the standard gamepad buttons
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'LS', 'RS',
+  'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home'
+]
+
+const MOUSE_BUTTON_NAMES = ['Left click', 'Middle click', 'Right click', 'Back button', 'Forward button']
+
+/**
+ * Check whether a binding can trigger an action
+ * Pointer actions need a position (mouse buttons and touch gestures), and touch
+ * gestures only make sense for pointer actions.
+ */
+export function canBind(action: InputAction, binding: string): boolean {
+  const isPointer = binding.startsWith('Mouse:') || binding.startsWith('Touch:')
+  if (POINTER_ACTIONS.includes(action)) return isPointer
+  return !binding.startsWith('Touch:')
+}
+
+/**
+ * Get a readable name for a binding (e.g. "W", "Right click", "Gamepad A")
+ */
+export function formatBinding(binding: string): string {
+  const [device, input = ''] = binding.split(':')
+  switch (device) {
+    case 'Key':
+      return input.replace(/^Key|^Digit/, '').replace(/^Arrow(.+)/, 'Arrow $1')
+    case 'Mouse':
+      return MOUSE_BUTTON_NAMES[Number(input)] ?? `Mouse ${input}`
+    case 'Wheel':
+      return `Wheel ${input.toLowerCase()}`
+    case 'Gamepad':
+      return `Gamepad ${GAMEPAD_BUTTON_NAMES[Number(input)] ?? input}`
+    case 'Touch':
+      return input
+    default:
+      return binding
+  }
+}
+
+/**
+ * Build complete bindings from saved ones
+ * Actions missing from the save (e.g. added since) get their default bindings, and
+ * unknown actions or invalid bindings are dropped.
+ */
+export function normalizeBindings(saved: unknown): InputBindings {
+  const bindings = structuredClone(DEFAULT_BINDINGS)
+  if (typeof saved !== 'object' || saved === null) return bindings
+
+  for (const action of Object.keys(INPUT_ACTIONS) as InputAction[]) {
+    const value = (saved as Record<string, unknown>)[action]
+    if (!Array.isArray(value)) continue
+    bindings[action] = value.filter((binding): binding is string =>
+      typeof binding === 'string' && canBind(action, binding)
+    )
+  }
+  return bindings
+}
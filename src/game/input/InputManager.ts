@@ -0,0 +1,436 @@
+import { GamepadInput } from './GamepadInput'
+import {
+  canBind,
+  DEFAULT_BINDINGS,
+  HELD_ACTIONS,
+  INPUT_ACTIONS,
+  type InputAction,
+  type InputBindings,
+} from './InputBindings'
+
+/**
+ * Action triggered by the player
+ * Pointer positions and pan distances are in pixels relative to the canvas.
+ */
+export type InputEvent =
+  | { action: 'move-to'; x: number; y: number; pointerType: string }
+  | { action: 'zoom-in' | 'zoom-out'; factor: number; x: number; y: number } // factor > 1 zooms in, x/y is the anchor
+  | { action: 'pan'; dx: number; dy: number }
+  | { action: 'hover'; x: number; y: number } // Mouse moved over the canvas without a button held
+  | { action: 'hover-end' } // Mouse left the canvas
+  | { action: Exclude<InputAction, 'move-to' | 'zoom-in' | 'zoom-out' | 'pan'> }
+
+/**
+ * Pointer held down on the canvas
+ */
+interface ActivePointer {
+  type: string // 'mouse', 'pen' or 'touch'
+  binding: string // Mouse button binding, or "Touch:Tap" until a touch starts dragging
+  x: number
+  y: number
+  startX: number
+  startY: number
+  dragging: boolean // Moved past the tap distance (touch) or bound to panning (mouse)
+}
+
+const ZOOM_STEP = 1.1 // Zoom factor of one wheel notch or key press
+const WHEEL_NOTCH_PIXELS = 100 // Wheel delta (in pixels) of one notch
+const TAP_SLOP = 10 // Distance (pixels) a touch may move and still count as a tap
+
+/**
+ * Input subsystem that turns raw device input into named actions
+ *
+ * Listens to pointer events on the canvas (mouse, pen and touch alike), the keyboard
+ * and the first gamepad, and looks raw inputs up in the bindings to trigger actions.
+ * Triggered actions go to the onAction listeners; walking is read every frame with
+ * getMoveDirection(), which combines the held walk actions and the gamepad stick.
+ *
+ * One-finger touches tap or drag, two fingers pinch to zoom and pan. Bindings can be
+ * changed at runtime and captured from the next key or button the player presses.
+ */
+export class InputManager {
+  private bindings: InputBindings
+  private canvas: HTMLCanvasElement | null = null
+  private gamepad: GamepadInput = new GamepadInput()
+  private heldBindings: Set<string> = new Set() // Keys and mouse buttons held down
+  private pointers: Map<number, ActivePointer> = new Map() // Active pointers by pointer id
+  private pinchDistance: number = 0 // Distance between the two fingers of a pinch
+  private capture: ((binding: string | null) => void) | null = null // Waiting for captureBinding()
+  private actionListeners: Set<(event: InputEvent) => void> = new Set()
+  private bindingsListeners: Set<(bindings: InputBindings) => void> = new Set()
+
+  constructor(bindings: InputBindings = DEFAULT_BINDINGS) {
+    this.bindings = structuredClone(bindings)
+  }
+
+  /**
+   * Start listening to pointer events on a canvas and to the keyboard
+   */
+  attach(canvas: HTMLCanvasElement) {
+    this.detach()
+    this.canvas = canvas
+    canvas.addEventListener('pointerdown', this.handlePointerDown)
+    canvas.addEventListener('pointermove', this.handlePointerMove)
+    canvas.addEventListener('pointerup', this.handlePointerUp)
+    canvas.addEventListener('pointercancel', this.handlePointerCancel)
+    canvas.addEventListener('pointerleave', this.handlePointerLeave)
+    canvas.addEventListener('wheel', this.handleWheel, { passive: false })
+    canvas.addEventListener('contextmenu', this.handleContextMenu)
+    window.addEventListener('keydown', this.handleKeyDown)
+    window.addEventListener('keyup', this.handleKeyUp)
+    window.addEventListener('blur', this.handleBlur)
+  }
+
+  /**
+   * Stop listening and release everything held
+   */
+  detach() {
+    const canvas = this.canvas
+    if (canvas) {
+      canvas.removeEventListener('pointerdown', this.handlePointerDown)
+      canvas.removeEventListener('pointermove', this.handlePointerMove)
+      canvas.removeEventListener('pointerup', this.handlePointerUp)
+      canvas.removeEventListener('pointercancel', this.handlePointerCancel)
+      canvas.removeEventListener('pointerleave', this.handlePointerLeave)
+      canvas.removeEventListener('wheel', this.handleWheel)
+      canvas.removeEventListener('contextmenu', this.handleContextMenu)
+      window.removeEventListener('keydown', this.handleKeyDown)
+      window.removeEventListener('keyup', this.handleKeyUp)
+      window.removeEventListener('blur', this.handleBlur)
+    }
+    this.canvas = null
+    this.handleBlur()
+  }
+
+  /**
+   * Poll the gamepad and trigger the actions of its pressed buttons (call once per frame)
+   */
+  update() {
+    this.gamepad.update()
+    for (const button of this.gamepad.getPressedButtons()) {
+      const binding = `Gamepad:${button}`
+      if (!this.completeCapture(binding)) {
+        this.triggerBinding(binding)
+      }
+    }
+  }
+
+  /**
+   * Get the direction to walk in, in grid coordinates ({ x: 0, y: 0 } when idle)
+   * A pushed gamepad stick takes over from the walk actions.
+   */
+  getMoveDirection(): { x: number; y: number } {
+    const stick = this.gamepad.getDirection()
+    if (stick.x !== 0 || stick.y !== 0) return stick
+
+    const screenX = Number(this.isHeld('walk-right')) - Number(this.isHeld('walk-left'))
+    const screenY = Number(this.isHeld('walk-down')) - Number(this.isHeld('walk-up'))
+    // Screen right is +x -y on the grid and screen down is +x +y, so two keys together
+    // walk straight along a grid axis
+    return { x: screenX + screenY, y: screenY - screenX }
+  }
+
+  /**
+   * Get the share of the full walking speed (how far the stick is pushed, 1 for keys)
+   */
+  getMoveSpeed(): number {
+    const stick = this.gamepad.getDirection()
+    return stick.x !== 0 || stick.y !== 0 ? this.gamepad.getStickAmount() : 1
+  }
+
+  /**
+   * Check whether any binding of an action is held down
+   */
+  isHeld(action: InputAction): boolean {
+    return this.bindings[action].some(binding =>
+      binding.startsWith('Gamepad:')
+        ? this.gamepad.isHeld(Number(binding.slice('Gamepad:'.length)))
+        : this.heldBindings.has(binding)
+    )
+  }
+
+  /**
+   * Subscribe to triggered actions
+   * Returns a function that removes the listener
+   */
+  onAction(listener: (event: InputEvent) => void): () => void {
+    this.actionListeners.add(listener)
+    return () => this.actionListeners.delete(listener)
+  }
+
+  /**
+   * Get a copy of the bindings of every action
+   */
+  getBindings(): InputBindings {
+    return structuredClone(this.bindings)
+  }
+
+  /**
+   * Replace the bindings of an action
+   * A binding can only trigger one action, so it is removed from the others. Bindings
+   * the action can't use (see canBind) are ignored.
+   */
+  setBindings(action: InputAction, bindings: string[]) {
+    const accepted = bindings.filter(binding => canBind(action, binding))
+    for (const other of Object.keys(INPUT_ACTIONS) as InputAction[]) {
+      if (other !== action) {
+        this.bindings[other] = this.bindings[other].filter(binding => !accepted.includes(binding))
+      }
+    }
+    this.bindings[action] = [...new Set(accepted)]
+    this.notifyBindingsChange()
+  }
+
+  /**
+   * Restore the default bindings
+   */
+  resetBindings() {
+    this.bindings = structuredClone(DEFAULT_BINDINGS)
+    this.notifyBindingsChange()
+  }
+
+  /**
+   * Subscribe to binding changes (e.g. to save them)
+   * Returns a function that removes the listener
+   */
+  onBindingsChange(listener: (bindings: InputBindings) => void): () => void {
+    this.bindingsListeners.add(listener)
+    return () => this.bindingsListeners.delete(listener)
+  }
+
+  /**
+   * Wait for the next key, mouse button (on the canvas), wheel turn or gamepad button
+   * Nothing is triggered while capturing. Resolves to the binding, or null when the
+   * player presses Escape or another capture starts.
+   */
+  captureBinding(): Promise<string | null> {
+    this.capture?.(null)
+    return new Promise((resolve) => {
+      this.capture = resolve
+    })
+  }
+
+  private notifyBindingsChange() {
+    const bindings = this.getBindings()
+    for (const listener of this.bindingsListeners) {
+      listener(bindings)
+    }
+  }
+
+  private emit(event: InputEvent) {
+    for (const listener of this.actionListeners) {
+      listener(event)
+    }
+  }
+
+  /**
+   * Finish a capture with a binding
+   * Returns false when no capture is running
+   */
+  private completeCapture(binding: string | null): boolean {
+    if (!this.capture) return false
+    const resolve = this.capture
+    this.capture = null
+    resolve(binding)
+    return true
+  }
+
+  /**
+   * Get the actions a raw input is bound to
+   */
+  private getActions(binding: string): InputAction[] {
+    return (Object.keys(this.bindings) as InputAction[]).filter(action => this.bindings[action].includes(binding))
+  }
+
+  /**
+   * Trigger the actions bound to a raw input
+   * @param position Pointer position for pointer actions and the zoom anchor
+   * @param steps Zoom steps (wheel notches)
+   */
+  private triggerBinding(binding: string, position: { x: number; y: number; pointerType: string } | null = null, steps: number = 1) {
+    for (const action of this.getActions(binding)) {
+      if (HELD_ACTIONS.includes(action)) continue
+      switch (action) {
+        case 'move-to':
+          if (position) this.emit({ action, ...position })
+          break
+        case 'pan':
+          break // Panning follows the pointer while it is held
+        case 'zoom-in':
+        case 'zoom-out': {
+          const anchor = position ?? this.getCanvasCenter()
+          const factor = ZOOM_STEP ** (action === 'zoom-in' ? steps : -steps)
+          this.emit({ action, factor, x: anchor.x, y: anchor.y })
+          break
+        }
+        default:
+          this.emit({ action })
+      }
+    }
+  }
+
+  private getCanvasCenter(): { x: number; y: number } {
+    return { x: (this.canvas?.clientWidth ?? 0) / 2, y: (this.canvas?.clientHeight ?? 0) / 2 }
+  }
+
+  private getCanvasPosition(event: { clientX: number; clientY: number }): { x: number; y: number } {
+    const rect = this.canvas!.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  private getTouches(): ActivePointer[] {
+    return Array.from(this.pointers.values()).filter(pointer => pointer.type === 'touch')
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    const { x, y } = this.getCanvasPosition(event)
+    const isTouch = event.pointerType === 'touch'
+    if (!isTouch && this.completeCapture(`Mouse:${event.button}`)) return
+
+    this.canvas!.setPointerCapture(event.pointerId)
+    const binding = isTouch ? 'Touch:Tap' : `Mouse:${event.button}`
+    const pointer: ActivePointer = { type: event.pointerType, binding, x, y, startX: x, startY: y, dragging: false }
+    this.pointers.set(event.pointerId, pointer)
+
+    if (isTouch) {
+      // A second finger turns the gesture into a pinch (neither finger taps anymore)
+      const touches = this.getTouches()
+      if (touches.length === 2) {
+        for (const touch of touches) {
+          touch.dragging = true
+          touch.binding = 'Touch:Drag'
+        }
+        this.pinchDistance = Math.hypot(touches[0]!.x - touches[1]!.x, touches[0]!.y - touches[1]!.y)
+      }
+      return
+    }
+
+    this.heldBindings.add(binding)
+    pointer.dragging = this.getActions(binding).includes('pan')
+    this.triggerBinding(binding, { x, y, pointerType: event.pointerType })
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    const { x, y } = this.getCanvasPosition(event)
+    const pointer = this.pointers.get(event.pointerId)
+    if (!pointer) {
+      if (event.pointerType !== 'touch') {
+        this.emit({ action: 'hover', x, y })
+      }
+      return
+    }
+
+    const dx = x - pointer.x
+    const dy = y - pointer.y
+    pointer.x = x
+    pointer.y = y
+
+    if (pointer.type !== 'touch') {
+      if (pointer.dragging) {
+        this.emit({ action: 'pan', dx, dy })
+      }
+      return
+    }
+
+    const touches = this.getTouches()
+    if (touches.length >= 2) {
+      // Pinch: zoom by the change of finger distance around their midpoint, and pan
+      // by half the move of each finger (the midpoint moves by that much)
+      const [first, second] = touches as [ActivePointer, ActivePointer]
+      const distance = Math.hypot(first.x - second.x, first.y - second.y)
+      if (this.pinchDistance > 0 && distance > 0) {
+        const factor = distance / this.pinchDistance
+        this.emit({ action: factor >= 1 ? 'zoom-in' : 'zoom-out', factor, x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 })
+      }
+      this.pinchDistance = distance
+      this.emit({ action: 'pan', dx: dx / 2, dy: dy / 2 })
+      return
+    }
+
+    if (!pointer.dragging && Math.hypot(x - pointer.startX, y - pointer.startY) > TAP_SLOP) {
+      pointer.dragging = true
+      pointer.binding = 'Touch:Drag'
+    }
+    if (pointer.dragging && this.getActions(pointer.binding).includes('pan')) {
+      this.emit({ action: 'pan', dx, dy })
+    }
+  }
+
+  private handlePointerUp = (event: PointerEvent) => {
+    const pointer = this.pointers.get(event.pointerId)
+    this.pointers.delete(event.pointerId)
+    if (!pointer) return
+
+    if (pointer.type !== 'touch') {
+      this.heldBindings.delete(pointer.binding)
+    } else if (!pointer.dragging && this.getTouches().length === 0) {
+      this.triggerBinding('Touch:Tap', { x: pointer.x, y: pointer.y, pointerType: pointer.type })
+    }
+  }
+
+  private handlePointerCancel = (event: PointerEvent) => {
+    const pointer = this.pointers.get(event.pointerId)
+    this.pointers.delete(event.pointerId)
+    if (pointer && pointer.type !== 'touch') {
+      this.heldBindings.delete(pointer.binding)
+    }
+  }
+
+  private handlePointerLeave = (event: PointerEvent) => {
+    if (event.pointerType !== 'touch') {
+      this.emit({ action: 'hover-end' })
+    }
+  }
+
+  private handleWheel = (event: WheelEvent) => {
+    event.preventDefault() // Don't scroll or zoom the page
+    if (event.deltaY === 0) return
+    const binding = event.deltaY < 0 ? 'Wheel:Up' : 'Wheel:Down'
+    if (this.completeCapture(binding)) return
+
+    // Line and page deltas (some mice and browsers) count as whole notches
+    const steps = event.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? Math.abs(event.deltaY) / WHEEL_NOTCH_PIXELS : 1
+    const { x, y } = this.getCanvasPosition(event)
+    this.triggerBinding(binding, { x, y, pointerType: 'mouse' }, steps)
+  }
+
+  private handleContextMenu = (event: MouseEvent) => {
+    event.preventDefault() // The right button is bound to actions
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    // Leave typing and shortcuts (e.g. the editor's Ctrl+Z) alone
+    if (event.ctrlKey || event.altKey || event.metaKey || this.isTypingTarget(event.target)) return
+
+    const binding = `Key:${event.code}`
+    if (this.capture) {
+      event.preventDefault()
+      this.completeCapture(event.code === 'Escape' ? null : binding)
+      return
+    }
+
+    const actions = this.getActions(binding)
+    if (actions.length === 0) return
+    event.preventDefault() // Arrow keys and space would otherwise scroll the page
+
+    // Only zooming repeats while a key is held; walking reads the held state
+    if (event.repeat && !actions.some(action => action === 'zoom-in' || action === 'zoom-out')) return
+    this.heldBindings.add(binding)
+    this.triggerBinding(binding)
+  }
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    this.heldBindings.delete(`Key:${event.code}`)
+  }
+
+  // Releases are missed while the window is not focused
+  private handleBlur = () => {
+    this.heldBindings.clear()
+    this.pointers.clear()
+  }
+
+  private isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false
+    return target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)
+  }
+}
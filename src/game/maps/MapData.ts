@@ -0,0 +1,84 @@
+/**
+ * Map description shared by map loaders and generators
+ *
+ * All positions are in isometric grid coordinates (isoX, isoY).
+ * Elevations are in levels (one level is one cube high).
+ */
+
+export interface MapObstacle {
+  isoX: number
+  isoY: number
+  color?: number // Cube color (defaults to the scene's brown obstacle color)
+  levels?: number // Number of stacked cubes (defaults to 1)
+}
+
+export interface MapTileHeight {
+  isoX: number
+  isoY: number
+  height: number // Ground elevation in levels (tiles not listed are at level 0)
+}
+
+/**
+ * Direction a ramp climbs towards (east = +isoX, west = -isoX, south = +isoY, north = -isoY)
+ */
+export type RampDirection = 'north' | 'east' | 'south' | 'west'
+
+/**
+ * Grid offset of the tile a ramp climbs towards, by direction
+ */
+export const RAMP_DIRECTION_OFFSETS: Record<RampDirection, { dx: number; dy: number }> = {
+  north: { dx: 0, dy: -1 },
+  east: { dx: 1, dy: 0 },
+  south: { dx: 0, dy: 1 },
+  west: { dx: -1, dy: 0 }
+}
+
+/**
+ * Ramps are smooth slopes, stairs are drawn as steps; both climb exactly one level
+ */
+export type RampKind = 'ramp' | 'stairs'
+
+export interface MapRamp {
+  isoX: number
+  isoY: number
+  direction: RampDirection // Climbs from the tile's ground elevation to one level higher in this direction
+  kind?: RampKind // Defaults to 'ramp'
+}
+
+/**
+ * Ground surface of a walkable tile (see Terrain.ts for colors and movement costs)
+ */
+export type TerrainType = 'grass' | 'sand' | 'mud' | 'water' | 'road'
+
+export interface MapTerrain {
+  isoX: number
+  isoY: number
+  terrain: TerrainType // Tiles not listed are grass
+}
+
+export interface MapData {
+  width: number
+  height: number
+  obstacles: MapObstacle[]
+  heights?: MapTileHeight[] // Raised ground (flat map if not provided)
+  ramps?: MapRamp[] // Ramps and stairs connecting elevation levels
+  terrain?: MapTerrain[] // Ground surface types (all grass if not provided)
+  spawn: { isoX: number; isoY: number } // Character starting tile
+}
+
+/**
+ * Move every position of a map by an offset (e.g. from chunk to world coordinates)
+ */
+export function translateMap(map: MapData, offsetX: number, offsetY: number): MapData {
+  const move = <T extends { isoX: number; isoY: number }>(item: T): T =>
+    ({ ...item, isoX: item.isoX + offsetX, isoY: item.isoY + offsetY })
+
+  return {
+    ...map,
+    obstacles: map.obstacles.map(move),
+    heights: map.heights?.map(move),
+    ramps: map.ramps?.map(move),
+    terrain: map.terrain?.map(move),
+    spawn: move(map.spawn)
+  }
+}
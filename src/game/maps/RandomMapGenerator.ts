@@ -0,0 +1,290 @@
+import {
+  RAMP_DIRECTION_OFFSETS,
+  type MapData,
+  type MapObstacle,
+  type MapRamp,
+  type MapTerrain,
+  type MapTileHeight,
+  type RampDirection,
+  type TerrainType,
+  translateMap
+} from './MapData'
+import { SeededRandom } from '../utils/SeededRandom'
+
+/**
+ * Random map generator
+ *
+ * Fallback world generator used when no hand-authored map is loaded.
+ * Open worlds are generated chunk by chunk (see generateChunk).
+ * Obstacles (some of them stacked) and raised platforms are placed randomly
+ * but avoid the character's starting position. Ramps and stairs are placed along
+ * platform edges so the character can climb them. The ground is grass with
+ * patches of sand, mud and shallow water, crossed by a few winding roads.
+ * All randomness comes from a seeded PRNG: the same seed and size always
+ * produce the same obstacle layout, density and spawn.
+ */
+export class RandomMapGenerator {
+  private minObstacleDensity: number = 0.06 // Between 6% and 9% of tiles will be obstacles
+  private maxObstacleDensity: number = 0.09
+  private spawnSpread: number = 0.1 // Spawn offset from the center (fraction of the map size)
+  private avoidRadius: number = 1 // Keep a small area around the spawn free (3x3 tiles)
+  private tilesPerPlatform: number = 400 // One raised platform per 400 tiles
+  private minPlatformSize: number = 3 // Platform side length in tiles
+  private maxPlatformSize: number = 7
+  private stackChance: number = 0.2 // Chance for an obstacle to be 2 cubes high
+  private tallStackChance: number = 0.05 // Chance for an obstacle to be 3 cubes high
+  private rampSpacing: number = 4 // Minimum distance between two ramps (in tiles)
+  private stairsChance: number = 0.3 // Chance for a ramp to be drawn as stairs
+  private tilesPerPatch: number = 250 // One terrain patch (sand, mud or water) per 250 tiles
+  private minPatchRadius: number = 1
+  private maxPatchRadius: number = 3
+  private tilesPerRoad: number = 30 // One road per 30 tiles of map size
+  private roadTurnChance: number = 0.15 // Chance for a road to shift sideways at each tile
+
+  /**
+   * Generate a square map of the given size from a seed
+   */
+  generate(size: number, seed: number): MapData {
+    const random = new SeededRandom(seed)
+    const obstacles: MapObstacle[] = []
+    const occupied: Set<string> = new Set() // Obstacle positions as "isoX,isoY"
+
+    // Character starts near the center of the map
+    const maxSpawnOffset = Math.floor(size * this.spawnSpread)
+    const spawn = {
+      isoX: Math.round(size / 2) + random.nextInt(maxSpawnOffset * 2 + 1) - maxSpawnOffset,
+      isoY: Math.round(size / 2) + random.nextInt(maxSpawnOffset * 2 + 1) - maxSpawnOffset
+    }
+
+    const totalTiles = size * size
+    const obstacleDensity = random.nextRange(this.minObstacleDensity, this.maxObstacleDensity)
+    const obstacleCount = Math.floor(totalTiles * obstacleDensity)
+
+    // Generate random obstacle positions
+    let placed = 0
+    const maxAttempts = obstacleCount * 10 // Prevent infinite loop
+    let attempts = 0
+
+    while (placed < obstacleCount && attempts < maxAttempts) {
+      attempts++
+
+      const isoX = random.nextInt(size)
+      const isoY = random.nextInt(size)
+      const tileKey = `${isoX},${isoY}`
+
+      // Skip if already an obstacle
+      if (occupied.has(tileKey)) {
+        continue
+      }
+
+      // Skip if too close to character starting position
+      const distanceX = Math.abs(isoX - spawn.isoX)
+      const distanceY = Math.abs(isoY - spawn.isoY)
+      if (distanceX <= this.avoidRadius && distanceY <= this.avoidRadius) {
+        continue
+      }
+
+      occupied.add(tileKey)
+      const stackRoll = random.next()
+      if (stackRoll < this.tallStackChance) {
+        obstacles.push({ isoX, isoY, levels: 3 })
+      } else if (stackRoll < this.tallStackChance + this.stackChance) {
+        obstacles.push({ isoX, isoY, levels: 2 })
+      } else {
+        obstacles.push({ isoX, isoY })
+      }
+      placed++
+    }
+
+    const heights = this.generatePlatforms(size, spawn, random)
+    const ramps = this.generateRamps(size, spawn, heights, occupied, random)
+    const terrain = this.generateTerrain(size, random)
+
+    return { width: size, height: size, obstacles, heights, ramps, terrain, spawn }
+  }
+
+  /**
+   * Generate one chunk of an open world
+   * A chunk is generated like a small square map, from a seed derived from the world
+   * seed and the chunk position, so chunks can be generated in any order. Positions
+   * are in world grid coordinates, and the spawn is the free area near the chunk center.
+   *
+   * Each edge of the chunk has a crossing: a tile picked from a seed derived from the
+   * edge (so the chunks on both sides pick the same one), joined to the spawn by a path
+   * of flat, free ground level with the rest of the ground. Neighboring chunks always
+   * connect through their crossings, whatever else was generated along the edge.
+   */
+  generateChunk(chunkX: number, chunkY: number, size: number, seed: number): MapData {
+    const chunk = this.generate(size, SeededRandom.deriveSeed(seed, chunkX, chunkY))
+    if (size >= 3) {
+      // Edges are identified by the chunk after them and their axis (1 = along y, 2 = along x)
+      const crossingOffset = (edgeX: number, edgeY: number, axis: number) =>
+        1 + new SeededRandom(SeededRandom.deriveSeed(SeededRandom.deriveSeed(seed, edgeX, edgeY), axis, 0)).nextInt(size - 2)
+      const crossings = [
+        { isoX: 0, isoY: crossingOffset(chunkX, chunkY, 1) }, // West
+        { isoX: size - 1, isoY: crossingOffset(chunkX + 1, chunkY, 1) }, // East
+        { isoX: crossingOffset(chunkX, chunkY, 2), isoY: 0 }, // North
+        { isoX: crossingOffset(chunkX, chunkY + 1, 2), isoY: size - 1 } // South
+      ]
+      this.clearCrossingPaths(chunk, crossings)
+    }
+    return translateMap(chunk, chunkX * size, chunkY * size)
+  }
+
+  /**
+   * Flatten and free the ground between each crossing and the spawn: straight in from
+   * the edge to the spawn's row or column, then along it (obstacles, platforms and
+   * ramps on the way are removed)
+   */
+  private clearCrossingPaths(map: MapData, crossings: Array<{ isoX: number; isoY: number }>) {
+    const cleared: Set<string> = new Set() // By "isoX,isoY"
+    const { spawn } = map
+    for (const crossing of crossings) {
+      const alongX = crossing.isoX === 0 || crossing.isoX === map.width - 1 // Enters the chunk along x
+      const corner = alongX ? { isoX: spawn.isoX, isoY: crossing.isoY } : { isoX: crossing.isoX, isoY: spawn.isoY }
+      for (const [from, to] of [[crossing, corner], [corner, spawn]] as const) {
+        const stepX = Math.sign(to.isoX - from.isoX)
+        const stepY = Math.sign(to.isoY - from.isoY)
+        for (let isoX = from.isoX, isoY = from.isoY; ; isoX += stepX, isoY += stepY) {
+          cleared.add(`${isoX},${isoY}`)
+          if (isoX === to.isoX && isoY === to.isoY) break
+        }
+      }
+    }
+
+    const isKept = (tile: { isoX: number; isoY: number }) => !cleared.has(`${tile.isoX},${tile.isoY}`)
+    map.obstacles = map.obstacles.filter(isKept)
+    map.heights = map.heights?.filter(isKept)
+    map.ramps = map.ramps?.filter(isKept)
+  }
+
+  /**
+   * Generate rectangular raised platforms (1 or 2 levels high) away from the spawn
+   */
+  private generatePlatforms(size: number, spawn: { isoX: number; isoY: number }, random: SeededRandom): MapTileHeight[] {
+    const heights: Map<string, MapTileHeight> = new Map() // By "isoX,isoY"
+    const platformCount = Math.floor((size * size) / this.tilesPerPlatform)
+    const spawnClearance = this.avoidRadius + 1 // Keep the spawn area flat
+
+    for (let i = 0; i < platformCount; i++) {
+      const width = this.minPlatformSize + random.nextInt(this.maxPlatformSize - this.minPlatformSize + 1)
+      const depth = this.minPlatformSize + random.nextInt(this.maxPlatformSize - this.minPlatformSize + 1)
+      const startX = random.nextInt(Math.max(1, size - width))
+      const startY = random.nextInt(Math.max(1, size - depth))
+      const height = random.next() < 0.75 ? 1 : 2
+
+      for (let isoX = startX; isoX < startX + width; isoX++) {
+        for (let isoY = startY; isoY < startY + depth; isoY++) {
+          if (Math.abs(isoX - spawn.isoX) <= spawnClearance && Math.abs(isoY - spawn.isoY) <= spawnClearance) {
+            continue
+          }
+          const tileKey = `${isoX},${isoY}`
+          // Overlapping platforms keep the highest elevation
+          if ((heights.get(tileKey)?.height ?? 0) < height) {
+            heights.set(tileKey, { isoX, isoY, height })
+          }
+        }
+      }
+    }
+
+    return Array.from(heights.values())
+  }
+
+  /**
+   * Place ramps and stairs where free ground meets free ground one level higher,
+   * with free ground at the ramp's own level behind it so it can be walked onto
+   */
+  private generateRamps(
+    size: number,
+    spawn: { isoX: number; isoY: number },
+    heights: MapTileHeight[],
+    occupied: Set<string>,
+    random: SeededRandom
+  ): MapRamp[] {
+    const heightByTile: Map<string, number> = new Map(heights.map((tile) => [`${tile.isoX},${tile.isoY}`, tile.height]))
+    const getHeight = (isoX: number, isoY: number) => heightByTile.get(`${isoX},${isoY}`) ?? 0
+    const isFree = (isoX: number, isoY: number) =>
+      isoX >= 0 && isoX < size && isoY >= 0 && isoY < size && !occupied.has(`${isoX},${isoY}`)
+
+    const candidates: Array<{ isoX: number; isoY: number; direction: RampDirection }> = []
+    for (let isoY = 0; isoY < size; isoY++) {
+      for (let isoX = 0; isoX < size; isoX++) {
+        if (!isFree(isoX, isoY) || (isoX === spawn.isoX && isoY === spawn.isoY)) continue
+        const base = getHeight(isoX, isoY)
+        for (const direction of Object.keys(RAMP_DIRECTION_OFFSETS) as RampDirection[]) {
+          const { dx, dy } = RAMP_DIRECTION_OFFSETS[direction]
+          if (
+            isFree(isoX + dx, isoY + dy) && getHeight(isoX + dx, isoY + dy) === base + 1 &&
+            isFree(isoX - dx, isoY - dy) && getHeight(isoX - dx, isoY - dy) === base
+          ) {
+            candidates.push({ isoX, isoY, direction })
+          }
+        }
+      }
+    }
+
+    // Shuffle the candidates (Fisher-Yates) so ramps spread around platforms
+    for (let i = candidates.length - 1; i > 0; i--) {
+      const j = random.nextInt(i + 1)
+      const swap = candidates[i]!
+      candidates[i] = candidates[j]!
+      candidates[j] = swap
+    }
+
+    const ramps: MapRamp[] = []
+    for (const candidate of candidates) {
+      const tooClose = ramps.some((ramp) =>
+        Math.abs(ramp.isoX - candidate.isoX) < this.rampSpacing && Math.abs(ramp.isoY - candidate.isoY) < this.rampSpacing
+      )
+      if (tooClose) continue
+      ramps.push({ ...candidate, kind: random.next() < this.stairsChance ? 'stairs' : 'ramp' })
+    }
+
+    return ramps
+  }
+
+  /**
+   * Generate terrain: round patches of sand, mud or shallow water, then roads
+   * running across the map (roads are drawn last so they cross the patches)
+   */
+  private generateTerrain(size: number, random: SeededRandom): MapTerrain[] {
+    const terrain: Map<string, MapTerrain> = new Map() // By "isoX,isoY"
+    const setTerrain = (isoX: number, isoY: number, type: TerrainType) => {
+      if (isoX < 0 || isoX >= size || isoY < 0 || isoY >= size) return
+      terrain.set(`${isoX},${isoY}`, { isoX, isoY, terrain: type })
+    }
+
+    const patchTypes: TerrainType[] = ['sand', 'mud', 'water']
+    const patchCount = Math.floor((size * size) / this.tilesPerPatch)
+    for (let i = 0; i < patchCount; i++) {
+      const type = patchTypes[random.nextInt(patchTypes.length)]!
+      const centerX = random.nextInt(size)
+      const centerY = random.nextInt(size)
+      const radius = this.minPatchRadius + random.nextInt(this.maxPatchRadius - this.minPatchRadius + 1)
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dy = -radius; dy <= radius; dy++) {
+          // Slightly ragged circle
+          if (dx * dx + dy * dy <= radius * radius + random.nextInt(radius + 1)) {
+            setTerrain(centerX + dx, centerY + dy, type)
+          }
+        }
+      }
+    }
+
+    const roadCount = Math.max(1, Math.floor(size / this.tilesPerRoad))
+    for (let i = 0; i < roadCount; i++) {
+      const horizontal = random.next() < 0.5
+      let offset = random.nextInt(size) // Position across the road direction
+      for (let along = 0; along < size; along++) {
+        setTerrain(horizontal ? along : offset, horizontal ? offset : along, 'road')
+        if (random.next() < this.roadTurnChance) {
+          // Shift sideways, keeping the road connected tile to tile
+          offset = Math.max(0, Math.min(size - 1, offset + (random.next() < 0.5 ? -1 : 1)))
+          setTerrain(horizontal ? along : offset, horizontal ? offset : along, 'road')
+        }
+      }
+    }
+
+    return Array.from(terrain.values())
+  }
+}
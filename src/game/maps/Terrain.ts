@@ -0,0 +1,33 @@
+import type { TerrainType } from './MapData'
+
+/**
+ * Terrain types: tile color and movement cost
+ *
+ * The cost multiplies the distance walked on a tile: the pathfinder prefers cheap
+ * tiles and the character moves slower on expensive ones (speed = 1 / cost).
+ */
+
+export interface TerrainInfo {
+  color: number // Tile fill color
+  cost: number // Movement cost multiplier (grass = 1)
+}
+
+export const DEFAULT_TERRAIN: TerrainType = 'grass'
+
+export const TERRAIN_TYPES: Record<TerrainType, TerrainInfo> = {
+  grass: { color: 0x6f8f55, cost: 1 },
+  sand: { color: 0xc8b67a, cost: 1.5 },
+  mud: { color: 0x6b5239, cost: 2.5 },
+  water: { color: 0x4f86b0, cost: 4 }, // Shallow water (wadeable)
+  road: { color: 0x8c8c8c, cost: 0.6 }
+}
+
+// Lowest cost of any terrain (keeps pathfinding heuristics admissible)
+export const MIN_TERRAIN_COST = Math.min(...Object.values(TERRAIN_TYPES).map((terrain) => terrain.cost))
+
+/**
+ * Check whether a value is a known terrain type name
+ */
+export function isTerrainType(value: unknown): value is TerrainType {
+  return typeof value === 'string' && Object.keys(TERRAIN_TYPES).includes(value)
+}
@@ -0,0 +1,181 @@
+import type { MapData } from './MapData'
+
+/**
+ * Custom property of a Tiled tile or layer
+ */
+interface TiledProperty {
+  name: string
+  type: string
+  value: string | number
+}
+
+/**
+ * Exporter from map data to the Tiled JSON map format (.tmj)
+ *
+ * The result can be opened in Tiled and loaded back with TiledMapLoader:
+ * obstacles go to an "obstacles" tile layer (one tileset tile per cube color and
+ * stack size), raised ground to one "height N" tile layer per elevation, ramps and
+ * stairs to a "ramps" tile layer, ground types to a "terrain" tile layer and the
+ * spawn point to a "spawn" object.
+ */
+export class TiledMapExporter {
+  // Tile dimensions of the exported map (2:1 isometric, like the scene)
+  private static tileWidth: number = 64
+  private static tileHeight: number = 32
+
+  /**
+   * Convert map data into a Tiled JSON map object
+   */
+  static toTiled(map: MapData, defaultColor: number): object {
+    const tileWidth = TiledMapExporter.tileWidth
+    const tileHeight = TiledMapExporter.tileHeight
+    const isInside = (isoX: number, isoY: number) => isoX >= 0 && isoX < map.width && isoY >= 0 && isoY < map.height
+    const createLayerData = (): number[] => Array(map.width * map.height).fill(0)
+
+    // Tileset tiles, one per distinct set of properties (tile id = index in this list)
+    const tiles: TiledProperty[][] = []
+    const tileIds: Map<string, number> = new Map() // By serialized properties
+    const getGid = (properties: TiledProperty[]): number => {
+      const key = JSON.stringify(properties)
+      let tileId = tileIds.get(key)
+      if (tileId === undefined) {
+        tileId = tiles.length
+        tiles.push(properties)
+        tileIds.set(key, tileId)
+      }
+      return tileId + 1 // gid = firstgid (1) + tile id
+    }
+    const getBlockGid = (color: number, levels: number) => getGid([
+      { name: 'color', type: 'color', value: `#ff${color.toString(16).padStart(6, '0')}` },
+      { name: 'levels', type: 'int', value: levels }
+    ])
+    // The default cube is always the first tile (also used to paint height layers)
+    const defaultGid = getBlockGid(defaultColor, 1)
+
+    // One tileset tile per distinct cube color and stack size
+    const obstacleData = createLayerData()
+    for (const obstacle of map.obstacles) {
+      if (!isInside(obstacle.isoX, obstacle.isoY)) continue
+      obstacleData[obstacle.isoY * map.width + obstacle.isoX] = getBlockGid(obstacle.color ?? defaultColor, obstacle.levels ?? 1)
+    }
+
+    // One tile layer per elevation (any non-empty tile raises the ground)
+    const heightData: Map<number, number[]> = new Map()
+    for (const raised of map.heights ?? []) {
+      if (raised.height <= 0 || !isInside(raised.isoX, raised.isoY)) continue
+      let layerData = heightData.get(raised.height)
+      if (!layerData) {
+        layerData = createLayerData()
+        heightData.set(raised.height, layerData)
+      }
+      layerData[raised.isoY * map.width + raised.isoX] = defaultGid
+    }
+
+    // One tileset tile per ramp kind and direction
+    const rampData = createLayerData()
+    for (const ramp of map.ramps ?? []) {
+      if (!isInside(ramp.isoX, ramp.isoY)) continue
+      rampData[ramp.isoY * map.width + ramp.isoX] = getGid([{ name: ramp.kind ?? 'ramp', type: 'string', value: ramp.direction }])
+    }
+
+    // One tileset tile per terrain type
+    const terrainData = createLayerData()
+    for (const tile of map.terrain ?? []) {
+      if (!isInside(tile.isoX, tile.isoY)) continue
+      terrainData[tile.isoY * map.width + tile.isoX] = getGid([{ name: 'terrain', type: 'string', value: tile.terrain }])
+    }
+
+    let nextLayerId = 3 // 1 and 2 are the obstacles and objects layers
+    const createTileLayer = (name: string, data: number[], properties?: TiledProperty[]) => ({
+      id: nextLayerId++,
+      name,
+      type: 'tilelayer',
+      visible: true,
+      opacity: 1,
+      x: 0,
+      y: 0,
+      width: map.width,
+      height: map.height,
+      data,
+      ...(properties ? { properties } : {})
+    })
+
+    const terrainLayers = (map.terrain ?? []).length > 0 ? [createTileLayer('terrain', terrainData)] : []
+    const heightLayers = Array.from(heightData.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([height, layerData]) => createTileLayer(`height ${height}`, layerData, [{ name: 'height', type: 'int', value: height }]))
+    const rampLayers = (map.ramps ?? []).length > 0 ? [createTileLayer('ramps', rampData)] : []
+
+    return {
+      type: 'map',
+      version: '1.10',
+      orientation: 'isometric',
+      renderorder: 'right-down',
+      infinite: false,
+      width: map.width,
+      height: map.height,
+      tilewidth: tileWidth,
+      tileheight: tileHeight,
+      nextlayerid: nextLayerId,
+      nextobjectid: 2,
+      layers: [
+        ...terrainLayers,
+        ...heightLayers,
+        ...rampLayers,
+        {
+          id: 1,
+          name: 'obstacles',
+          type: 'tilelayer',
+          visible: true,
+          opacity: 1,
+          x: 0,
+          y: 0,
+          width: map.width,
+          height: map.height,
+          data: obstacleData
+        },
+        {
+          id: 2,
+          name: 'objects',
+          type: 'objectgroup',
+          visible: true,
+          opacity: 1,
+          x: 0,
+          y: 0,
+          draworder: 'topdown',
+          objects: [
+            {
+              id: 1,
+              name: 'spawn',
+              class: 'spawn',
+              point: true,
+              // Object coordinates are in tileheight units on both axes (center of the tile)
+              x: map.spawn.isoX * tileHeight + tileHeight / 2,
+              y: map.spawn.isoY * tileHeight + tileHeight / 2,
+              width: 0,
+              height: 0,
+              rotation: 0,
+              visible: true
+            }
+          ]
+        }
+      ],
+      tilesets: [
+        {
+          firstgid: 1,
+          name: 'blocks',
+          tilewidth: tileWidth,
+          tileheight: tileHeight,
+          tilecount: tiles.length,
+          columns: tiles.length,
+          image: 'blocks.png',
+          imagewidth: tileWidth * tiles.length,
+          imageheight: tileHeight,
+          margin: 0,
+          spacing: 0,
+          tiles: tiles.map((properties, id) => ({ id, properties }))
+        }
+      ]
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import type { MapData, MapObstacle, MapRamp, MapTerrain, MapTileHeight, RampDirection, RampKind } from './MapData'
+import { isTerrainType } from './Terrain'
+
+/**
+ * Subset of the Tiled JSON map format (.tmj) used by the loader
+ * See https://doc.mapeditor.org/en/stable/reference/json-map-format/
+ */
+interface TiledProperty {
+  name: string
+  type?: string
+  value: unknown
+}
+
+interface TiledObject {
+  name?: string
+  type?: string // Tiled < 1.9
+  class?: string // Tiled >= 1.9
+  x: number
+  y: number
+  width?: number
+  height?: number
+  point?: boolean
+  properties?: TiledProperty[]
+}
+
+interface TiledLayer {
+  name: string
+  type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group'
+  visible?: boolean
+  width?: number
+  height?: number
+  data?: number[] | string
+  encoding?: string
+  objects?: TiledObject[]
+  layers?: TiledLayer[]
+  properties?: TiledProperty[]
+}
+
+interface TiledTileset {
+  firstgid: number
+  tiles?: Array<{ id: number; properties?: TiledProperty[] }>
+}
+
+interface TiledMap {
+  orientation: string
+  infinite?: boolean
+  width: number
+  height: number
+  tilewidth: number
+  tileheight: number
+  layers: TiledLayer[]
+  tilesets?: TiledTileset[]
+}
+
+// Tiled stores flip flags in the 3 highest bits of each gid
+const GID_MASK = 0x1fffffff
+
+/**
+ * Loader for hand-authored isometric maps made with Tiled
+ *
+ * Tile layers named "obstacles" (or with an `obstacle` property set to true) mark
+ * every non-empty tile as an obstacle. Tiles whose tileset entry has `obstacle: true`
+ * are obstacles in any layer. An optional `color` property (on the tile or the layer)
+ * sets the obstacle cube color, and an optional `levels` property stacks cubes.
+ *
+ * Tile layers with an integer `height` property raise the ground of every non-empty
+ * tile to that elevation (the highest layer wins).
+ *
+ * Tiles with a `ramp` or `stairs` property (a direction: "north", "east", "south" or
+ * "west") place a ramp or stairs climbing one level towards that direction, in any layer.
+ *
+ * A `terrain` property on a tile or a tile layer ("grass", "sand", "mud", "water" or
+ * "road") sets the ground type of the tiles it covers (later layers win).
+ *
+ * Object layers may contain a "spawn" object (by name or class) for the character's
+ * starting tile, "obstacle" objects (points or rectangles) for extra obstacles, and
+ * "ramp" or "stairs" objects with a `direction` property.
+ */
+export class TiledMapLoader {
+  /**
+   * Fetch and parse a Tiled JSON map
+   */
+  static async load(url: string): Promise<MapData> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to load map "${url}": ${response.status} ${response.statusText}`)
+    }
+    return TiledMapLoader.parse(await response.json())
+  }
+
+  /**
+   * Convert a parsed Tiled JSON map into map data
+   */
+  static parse(json: unknown): MapData {
+    const map = json as TiledMap
+    if (!map || typeof map !== 'object' || !Array.isArray(map.layers)) {
+      throw new Error('Invalid Tiled map: missing layers')
+    }
+    if (map.orientation !== 'isometric') {
+      throw new Error(`Unsupported Tiled map orientation "${map.orientation}" (expected "isometric")`)
+    }
+    if (map.infinite) {
+      throw new Error('Infinite Tiled maps are not supported')
+    }
+
+    const tileProperties = TiledMapLoader.collectTileProperties(map.tilesets ?? [])
+    const obstacles: Map<string, MapObstacle> = new Map() // Deduplicate by "isoX,isoY"
+    const heights: Map<string, MapTileHeight> = new Map() // Deduplicate by "isoX,isoY"
+    const ramps: Map<string, MapRamp> = new Map() // Deduplicate by "isoX,isoY"
+    const terrain: Map<string, MapTerrain> = new Map() // Deduplicate by "isoX,isoY"
+    let spawn: { isoX: number; isoY: number } | null = null
+
+    const addObstacle = (isoX: number, isoY: number, color?: number, levels?: number) => {
+      if (isoX < 0 || isoX >= map.width || isoY < 0 || isoY >= map.height) return
+      const obstacle: MapObstacle = { isoX, isoY }
+      if (color !== undefined) obstacle.color = color
+      if (levels !== undefined && levels > 1) obstacle.levels = levels
+      obstacles.set(`${isoX},${isoY}`, obstacle)
+    }
+
+    const raiseTile = (isoX: number, isoY: number, height: number) => {
+      if (isoX < 0 || isoX >= map.width || isoY < 0 || isoY >= map.height) return
+      const tileKey = `${isoX},${isoY}`
+      if ((heights.get(tileKey)?.height ?? 0) < height) {
+        heights.set(tileKey, { isoX, isoY, height })
+      }
+    }
+
+    const addRamp = (isoX: number, isoY: number, kind: RampKind, direction: RampDirection | undefined) => {
+      if (isoX < 0 || isoX >= map.width || isoY < 0 || isoY >= map.height || !direction) return
+      ramps.set(`${isoX},${isoY}`, { isoX, isoY, direction, kind })
+    }
+
+    for (const layer of TiledMapLoader.flattenLayers(map.layers)) {
+      if (layer.type === 'tilelayer') {
+        if (typeof layer.data === 'string' || layer.encoding === 'base64') {
+          throw new Error(`Tile layer "${layer.name}" uses base64 encoding; export the map with CSV layer format`)
+        }
+        const data = layer.data ?? []
+        const layerWidth = layer.width ?? map.width
+        const layerIsObstacle = layer.name.toLowerCase() === 'obstacles' || TiledMapLoader.getProperty(layer.properties, 'obstacle') === true
+        const layerColor = TiledMapLoader.parseColor(TiledMapLoader.getProperty(layer.properties, 'color'))
+        const layerLevels = TiledMapLoader.parseInteger(TiledMapLoader.getProperty(layer.properties, 'levels'))
+        const layerHeight = TiledMapLoader.parseInteger(TiledMapLoader.getProperty(layer.properties, 'height'))
+        const layerTerrain = TiledMapLoader.getProperty(layer.properties, 'terrain')
+
+        for (let i = 0; i < data.length; i++) {
+          const gid = (data[i] ?? 0) & GID_MASK
+          if (gid === 0) continue // Empty cell
+
+          const isoX = i % layerWidth
+          const isoY = Math.floor(i / layerWidth)
+          if (layerHeight !== undefined && layerHeight > 0) {
+            raiseTile(isoX, isoY, layerHeight)
+          }
+
+          const properties = tileProperties.get(gid)
+          const rampDirection = TiledMapLoader.parseDirection(TiledMapLoader.getProperty(properties, 'ramp'))
+          const stairsDirection = TiledMapLoader.parseDirection(TiledMapLoader.getProperty(properties, 'stairs'))
+          if (rampDirection || stairsDirection) {
+            addRamp(isoX, isoY, stairsDirection ? 'stairs' : 'ramp', stairsDirection ?? rampDirection)
+          }
+
+          const tileTerrain = TiledMapLoader.getProperty(properties, 'terrain') ?? layerTerrain
+          if (isTerrainType(tileTerrain) && isoX < map.width && isoY < map.height) {
+            terrain.set(`${isoX},${isoY}`, { isoX, isoY, terrain: tileTerrain })
+          }
+
+          const tileIsObstacle = TiledMapLoader.getProperty(properties, 'obstacle') === true
+          if (!layerIsObstacle && !tileIsObstacle) continue
+
+          const tileColor = TiledMapLoader.parseColor(TiledMapLoader.getProperty(properties, 'color'))
+          const tileLevels = TiledMapLoader.parseInteger(TiledMapLoader.getProperty(properties, 'levels'))
+          addObstacle(isoX, isoY, tileColor ?? layerColor, tileLevels ?? layerLevels)
+        }
+      } else if (layer.type === 'objectgroup') {
+        for (const object of layer.objects ?? []) {
+          const kind = (object.class ?? object.type ?? object.name ?? '').toLowerCase()
+
+          // In isometric maps, object coordinates are expressed in tileheight units on both axes
+          const isoX = Math.floor(object.x / map.tileheight)
+          const isoY = Math.floor(object.y / map.tileheight)
+
+          if (kind === 'spawn' || object.name?.toLowerCase() === 'spawn') {
+            spawn = { isoX, isoY }
+          } else if (kind === 'obstacle') {
+            const color = TiledMapLoader.parseColor(TiledMapLoader.getProperty(object.properties, 'color'))
+            const levels = TiledMapLoader.parseInteger(TiledMapLoader.getProperty(object.properties, 'levels'))
+            // Rectangles cover every tile they overlap, points a single tile
+            const endX = object.width ? Math.ceil((object.x + object.width) / map.tileheight) : isoX + 1
+            const endY = object.height ? Math.ceil((object.y + object.height) / map.tileheight) : isoY + 1
+            for (let x = isoX; x < endX; x++) {
+              for (let y = isoY; y < endY; y++) {
+                addObstacle(x, y, color, levels)
+              }
+            }
+          } else if (kind === 'ramp' || kind === 'stairs') {
+            addRamp(isoX, isoY, kind, TiledMapLoader.parseDirection(TiledMapLoader.getProperty(object.properties, 'direction')))
+          }
+        }
+      }
+    }
+
+    // Default to the map center when the designer did not place a spawn
+    if (!spawn) {
+      spawn = { isoX: Math.floor(map.width / 2), isoY: Math.floor(map.height / 2) }
+    }
+    if (spawn.isoX < 0 || spawn.isoX >= map.width || spawn.isoY < 0 || spawn.isoY >= map.height) {
+      throw new Error(`Spawn point (${spawn.isoX}, ${spawn.isoY}) is outside the map`)
+    }
+
+    // The character must never start inside an obstacle
+    obstacles.delete(`${spawn.isoX},${spawn.isoY}`)
+    // Obstacles fill their whole tile, so they replace ramps
+    for (const tileKey of obstacles.keys()) {
+      ramps.delete(tileKey)
+    }
+
+    return {
+      width: map.width,
+      height: map.height,
+      obstacles: Array.from(obstacles.values()),
+      heights: Array.from(heights.values()),
+      ramps: Array.from(ramps.values()),
+      terrain: Array.from(terrain.values()),
+      spawn
+    }
+  }
+
+  /**
+   * Flatten group layers into a single list (hidden layers are skipped)
+   */
+  private static flattenLayers(layers: TiledLayer[]): TiledLayer[] {
+    const result: TiledLayer[] = []
+    for (const layer of layers) {
+      if (layer.visible === false) continue
+      if (layer.type === 'group') {
+        result.push(...TiledMapLoader.flattenLayers(layer.layers ?? []))
+      } else {
+        result.push(layer)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Build a lookup of custom tile properties by global tile id
+   */
+  private static collectTileProperties(tilesets: TiledTileset[]): Map<number, TiledProperty[]> {
+    const result: Map<number, TiledProperty[]> = new Map()
+    for (const tileset of tilesets) {
+      for (const tile of tileset.tiles ?? []) {
+        if (tile.properties) {
+          result.set(tileset.firstgid + tile.id, tile.properties)
+        }
+      }
+    }
+    return result
+  }
+
+  private static getProperty(properties: TiledProperty[] | undefined, name: string): unknown {
+    return properties?.find((property) => property.name === name)?.value
+  }
+
+  /**
+   * Parse a non-negative integer property (Tiled int properties, or numeric strings)
+   */
+  private static parseInteger(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? Number(value) : value
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return undefined
+    return Math.floor(number)
+  }
+
+  /**
+   * Parse a ramp direction property ("north", "east", "south" or "west", case insensitive)
+   */
+  private static parseDirection(value: unknown): RampDirection | undefined {
+    if (typeof value !== 'string') return undefined
+    const direction = value.toLowerCase()
+    return direction === 'north' || direction === 'east' || direction === 'south' || direction === 'west'
+      ? direction
+      : undefined
+  }
+
+  /**
+   * Parse a Tiled color ("#RRGGBB" or "#AARRGGBB") into a 0xRRGGBB number
+   */
+  private static parseColor(value: unknown): number | undefined {
+    if (typeof value !== 'string') return undefined
+    const hex = value.replace('#', '')
+    if (!/^([0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return undefined
+    // Drop the alpha channel if present
+    return parseInt(hex.slice(-6), 16)
+  }
+}
@@ -0,0 +1,117 @@
+import * as PF from 'pathfinding'
+import type { NavigationGrid } from './NavigationGrid'
+import { backtrace, SearchNodeHeap, type GridFinder, type GridSearchResult, type SearchNode } from './GridFinder'
+import type { WeightedAStarFinderOptions } from './WeightedAStarFinder'
+
+/**
+ * One direction of the search
+ */
+interface SearchFrontier {
+  nodes: Map<number, SearchNode> // By tile index
+  open: SearchNodeHeap
+  goalX: number
+  goalY: number
+  forward: boolean // Forward steps pay for the tile stepped onto, backward steps for the tile stepped from
+}
+
+/**
+ * Bi-directional A* finder with per-tile movement costs
+ *
+ * Searches from both ends at once and joins the two searches where they meet.
+ * The search stops once no unexplored route can beat the best meeting point, so
+ * the path is as cheap as the one found by A* (with an admissible heuristic).
+ */
+export class BiDirectionalAStarFinder implements GridFinder {
+  private diagonalMovement: PF.DiagonalMovement
+  private heuristic: (dx: number, dy: number) => number
+  private weight: number
+  private minCost: number
+
+  constructor(options: WeightedAStarFinderOptions = {}) {
+    this.diagonalMovement = options.diagonalMovement ?? PF.DiagonalMovement.OnlyWhenNoObstacles
+    this.heuristic = options.heuristic ?? PF.Heuristic.octile
+    this.weight = options.weight ?? 1
+    this.minCost = options.minCost ?? 1
+  }
+
+  findPath(startX: number, startY: number, endX: number, endY: number, grid: NavigationGrid): GridSearchResult {
+    const createFrontier = (originX: number, originY: number, goalX: number, goalY: number, forward: boolean): SearchFrontier => {
+      const origin: SearchNode = { x: originX, y: originY, g: 0, f: 0, parent: null, closed: false }
+      const frontier = { nodes: new Map(), open: new SearchNodeHeap(), goalX, goalY, forward }
+      frontier.nodes.set(grid.getIndex(originX, originY), origin)
+      frontier.open.push(origin)
+      return frontier
+    }
+    const forward = createFrontier(startX, startY, endX, endY, true)
+    const backward = createFrontier(endX, endY, startX, startY, false)
+
+    let nodesExpanded = 0
+    let bestCost = startX === endX && startY === endY ? 0 : Infinity
+    let meeting: { forward: SearchNode; backward: SearchNode } | null = null
+
+    while (true) {
+      const forwardTop = this.peekOpen(forward)
+      const backwardTop = this.peekOpen(backward)
+      if (!forwardTop || !backwardTop) break
+
+      // Every route not found yet costs at least the lowest f of both frontiers
+      if (bestCost <= Math.max(forwardTop.f, backwardTop.f)) break
+
+      // Expand the frontier with the most promising node
+      const [frontier, other] = forwardTop.f <= backwardTop.f ? [forward, backward] : [backward, forward]
+      const node = frontier.open.pop()!
+      node.closed = true
+      nodesExpanded++
+
+      for (const neighbor of grid.getNeighbors(node.x, node.y, this.diagonalMovement)) {
+        const key = grid.getIndex(neighbor.x, neighbor.y)
+        let current = frontier.nodes.get(key)
+        if (current?.closed) continue
+
+        const distance = neighbor.x === node.x || neighbor.y === node.y ? 1 : Math.SQRT2
+        const tileCost = frontier.forward
+          ? grid.getMovementCost(neighbor.x, neighbor.y)
+          : grid.getMovementCost(node.x, node.y)
+        const g = node.g + distance * tileCost
+        if (!current || g < current.g) {
+          if (current) current.closed = true // Retire the costlier entry still in the heap
+          const h = this.weight * this.minCost * this.heuristic(Math.abs(neighbor.x - frontier.goalX), Math.abs(neighbor.y - frontier.goalY))
+          current = { x: neighbor.x, y: neighbor.y, g, f: g + h, parent: node, closed: false }
+          frontier.nodes.set(key, current)
+          frontier.open.push(current)
+        }
+
+        // Both searches reached this tile: remember the cheapest junction
+        const junction = other.nodes.get(key)
+        if (junction && current.g + junction.g < bestCost) {
+          bestCost = current.g + junction.g
+          meeting = frontier.forward
+            ? { forward: current, backward: junction }
+            : { forward: junction, backward: current }
+        }
+      }
+    }
+
+    if (bestCost === 0) {
+      return { path: [[startX, startY]], nodesExpanded }
+    }
+    if (!meeting) {
+      return { path: [], nodesExpanded }
+    }
+
+    // Start -> junction, then junction -> end (the backward path is stored end -> junction)
+    const forwardPath = backtrace(meeting.forward)
+    const backwardPath = backtrace(meeting.backward).reverse()
+    return { path: [...forwardPath, ...backwardPath.slice(1)], nodesExpanded }
+  }
+
+  /**
+   * Get the most promising open node of a frontier, dropping retired entries
+   */
+  private peekOpen(frontier: SearchFrontier): SearchNode | undefined {
+    while (frontier.open.peek()?.closed) {
+      frontier.open.pop()
+    }
+    return frontier.open.peek()
+  }
+}
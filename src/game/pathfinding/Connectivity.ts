@@ -0,0 +1,121 @@
+import type { GridTile, NavigationGrid } from './NavigationGrid'
+
+// Orthogonal neighbor offsets
+const STEP_OFFSETS: Array<[number, number]> = [[0, -1], [1, 0], [0, 1], [-1, 0]]
+
+/**
+ * Get the tiles reachable from a tile with orthogonal steps
+ * Tiles are identified by their index in the grid (see NavigationGrid.getIndex()).
+ */
+export function floodFill(grid: NavigationGrid, startX: number, startY: number): Set<number> {
+  const reached: Set<number> = new Set()
+  if (!grid.isWalkable(startX, startY)) return reached
+
+  const queue: GridTile[] = [{ x: startX, y: startY }]
+  reached.add(grid.getIndex(startX, startY))
+  for (let i = 0; i < queue.length; i++) {
+    const tile = queue[i]!
+    for (const neighbor of grid.getNeighbors(tile.x, tile.y)) {
+      const index = grid.getIndex(neighbor.x, neighbor.y)
+      if (reached.has(index)) continue
+      reached.add(index)
+      queue.push(neighbor)
+    }
+  }
+  return reached
+}
+
+/**
+ * Group the walkable tiles outside a region into connected pockets (largest first)
+ */
+export function findPockets(grid: NavigationGrid, region: Set<number>): Array<Set<number>> {
+  const origin = grid.getOrigin()
+  const assigned: Set<number> = new Set(region)
+  const pockets: Array<Set<number>> = []
+
+  for (let isoY = origin.y; isoY < origin.y + grid.getHeight(); isoY++) {
+    for (let isoX = origin.x; isoX < origin.x + grid.getWidth(); isoX++) {
+      const index = grid.getIndex(isoX, isoY)
+      if (assigned.has(index) || !grid.isWalkable(isoX, isoY)) continue
+
+      const pocket = floodFill(grid, isoX, isoY)
+      for (const tile of pocket) {
+        assigned.add(tile)
+      }
+      pockets.push(pocket)
+    }
+  }
+  return pockets.sort((a, b) => b.size - a.size)
+}
+
+/**
+ * Find the fewest blocked tiles to clear so that a pocket connects to a region
+ * Cleared tiles keep their terrain, so the route must respect heights and ramps.
+ * Returns the tiles to clear, or null when no route exists.
+ */
+export function findCarvePath(
+  grid: NavigationGrid,
+  pocket: Set<number>,
+  region: Set<number>,
+  canCarve: (isoX: number, isoY: number) => boolean
+): GridTile[] | null {
+  const cost: Map<number, number> = new Map() // Blocked tiles cleared to get to a tile
+  const parent: Map<number, number> = new Map()
+
+  // 0-1 breadth-first search: walkable steps are free, carving a tile costs 1
+  // Tiles are searched by cost, one front at a time: free steps join the front being
+  // searched, carved tiles the next one (arrays read by index, so no shifting)
+  let front: number[] = Array.from(pocket)
+  let nextFront: number[] = []
+  let frontCost = 0
+  for (const index of pocket) {
+    cost.set(index, 0)
+  }
+
+  let head = 0
+  while (head < front.length || nextFront.length > 0) {
+    if (head === front.length) {
+      front = nextFront
+      nextFront = []
+      frontCost++
+      head = 0
+      continue
+    }
+    const index = front[head++]!
+    if (cost.get(index) !== frontCost) continue // Reached more cheaply since it was queued
+    const { x, y } = grid.getTile(index)
+    if (region.has(index)) {
+      // Walk back to the pocket, collecting the blocked tiles on the way
+      const carved: GridTile[] = []
+      for (let current: number | undefined = index; current !== undefined && !pocket.has(current); current = parent.get(current)) {
+        const tile = grid.getTile(current)
+        if (!grid.isWalkable(tile.x, tile.y)) {
+          carved.push(tile)
+        }
+      }
+      return carved
+    }
+
+    for (const [dx, dy] of STEP_OFFSETS) {
+      const nextX = x + dx
+      const nextY = y + dy
+      if (!grid.isInside(nextX, nextY) || !grid.canStep(x, y, nextX, nextY)) continue
+
+      const walkable = grid.isWalkable(nextX, nextY)
+      if (!walkable && !canCarve(nextX, nextY)) continue
+
+      const nextIndex = grid.getIndex(nextX, nextY)
+      const nextCost = cost.get(index)! + (walkable ? 0 : 1)
+      if (nextCost >= (cost.get(nextIndex) ?? Infinity)) continue
+
+      cost.set(nextIndex, nextCost)
+      parent.set(nextIndex, index)
+      if (walkable) {
+        front.push(nextIndex)
+      } else {
+        nextFront.push(nextIndex)
+      }
+    }
+  }
+  return null
+}
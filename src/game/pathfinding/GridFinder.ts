@@ -0,0 +1,99 @@
+import type { NavigationGrid } from './NavigationGrid'
+
+/**
+ * Result of a path search
+ */
+export interface GridSearchResult {
+  path: number[][] // [x, y] tiles from start to end (empty if there is no path)
+  nodesExpanded: number // Number of tiles taken off the open list
+}
+
+/**
+ * Path search algorithm working on the navigation grid
+ * Finders never modify the grid, so there is no need to clone it for each search.
+ */
+export interface GridFinder {
+  findPath(startX: number, startY: number, endX: number, endY: number, grid: NavigationGrid): GridSearchResult
+}
+
+/**
+ * Search state of a visited tile (the grid's own nodes are left untouched)
+ */
+export interface SearchNode {
+  x: number
+  y: number
+  g: number // Cost from the search origin
+  f: number // g + estimated cost to the goal
+  parent: SearchNode | null
+  closed: boolean // Expanded, or replaced by a cheaper entry for the same tile
+}
+
+/**
+ * Build the path from the search origin to a node by following parents
+ */
+export function backtrace(node: SearchNode): number[][] {
+  const path: number[][] = []
+  for (let current: SearchNode | null = node; current; current = current.parent) {
+    path.push([current.x, current.y])
+  }
+  return path.reverse()
+}
+
+/**
+ * Binary min-heap of search nodes ordered by f
+ */
+export class SearchNodeHeap {
+  private items: SearchNode[] = []
+
+  isEmpty(): boolean {
+    return this.items.length === 0
+  }
+
+  /**
+   * Node with the lowest f, without removing it
+   */
+  peek(): SearchNode | undefined {
+    return this.items[0]
+  }
+
+  push(node: SearchNode) {
+    const items = this.items
+    items.push(node)
+    let index = items.length - 1
+    while (index > 0) {
+      const parentIndex = (index - 1) >> 1
+      if (items[parentIndex]!.f <= node.f) break
+      items[index] = items[parentIndex]!
+      index = parentIndex
+    }
+    items[index] = node
+  }
+
+  pop(): SearchNode | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length === 0 || !last) return top
+
+    // Sift the last node down from the root
+    let index = 0
+    while (true) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let smallest = index
+      let smallestF = last.f
+      if (left < items.length && items[left]!.f < smallestF) {
+        smallest = left
+        smallestF = items[left]!.f
+      }
+      if (right < items.length && items[right]!.f < smallestF) {
+        smallest = right
+      }
+      if (smallest === index) break
+      items[index] = items[smallest]!
+      index = smallest
+    }
+    items[index] = last
+    return top
+  }
+}
@@ -0,0 +1,232 @@
+import * as PF from 'pathfinding'
+import type { NavigationGrid } from './NavigationGrid'
+import { backtrace, SearchNodeHeap, type GridFinder, type GridSearchResult, type SearchNode } from './GridFinder'
+import type { WeightedAStarFinderOptions } from './WeightedAStarFinder'
+
+/**
+ * Tile reached by a jump, with the cost of the jump
+ */
+interface JumpPoint {
+  x: number
+  y: number
+  cost: number
+}
+
+/**
+ * Jump point search over a height-aware, weighted grid
+ *
+ * Inside an area of uniform ground (flat, one height, one terrain cost) the finder
+ * skips over tiles in straight and diagonal lines like the classic algorithm, and
+ * only stops at tiles with forced neighbors. Any tile touching different ground
+ * (a ramp, another height or another terrain) is a jump point, and jump points on
+ * such borders expand all their neighbors, so costs and ramps are handled exactly
+ * like A* does while open areas are crossed with very few expanded nodes.
+ */
+export class JumpPointFinder implements GridFinder {
+  private diagonalMovement: PF.DiagonalMovement
+  private heuristic: (dx: number, dy: number) => number
+  private weight: number
+  private minCost: number
+
+  constructor(options: WeightedAStarFinderOptions = {}) {
+    this.diagonalMovement = options.diagonalMovement ?? PF.DiagonalMovement.OnlyWhenNoObstacles
+    this.heuristic = options.heuristic ?? PF.Heuristic.octile
+    this.weight = options.weight ?? 1
+    this.minCost = options.minCost ?? 1
+  }
+
+  findPath(startX: number, startY: number, endX: number, endY: number, grid: NavigationGrid): GridSearchResult {
+    const nodes: Map<number, SearchNode> = new Map() // By tile index
+    const open = new SearchNodeHeap()
+    let nodesExpanded = 0
+
+    const start: SearchNode = { x: startX, y: startY, g: 0, f: 0, parent: null, closed: false }
+    nodes.set(grid.getIndex(startX, startY), start)
+    open.push(start)
+
+    while (!open.isEmpty()) {
+      const node = open.pop()!
+      if (node.closed) continue // Retired heap entry
+      node.closed = true
+      nodesExpanded++
+
+      if (node.x === endX && node.y === endY) {
+        return { path: this.expandPath(backtrace(node)), nodesExpanded }
+      }
+
+      for (const [dx, dy] of this.getDirections(grid, node)) {
+        const jumpPoint = this.jump(grid, node.x, node.y, dx, dy, endX, endY)
+        if (!jumpPoint) continue
+
+        const key = grid.getIndex(jumpPoint.x, jumpPoint.y)
+        const existing = nodes.get(key)
+        if (existing?.closed) continue
+
+        const g = node.g + jumpPoint.cost
+        if (existing && g >= existing.g) continue
+
+        if (existing) existing.closed = true // Retire the costlier entry still in the heap
+
+        const h = this.weight * this.minCost * this.heuristic(Math.abs(jumpPoint.x - endX), Math.abs(jumpPoint.y - endY))
+        const searchNode: SearchNode = { x: jumpPoint.x, y: jumpPoint.y, g, f: g + h, parent: node, closed: false }
+        nodes.set(key, searchNode)
+        open.push(searchNode)
+      }
+    }
+
+    return { path: [], nodesExpanded } // No path
+  }
+
+  /**
+   * Get the directions to search from a jump point
+   * Jump points inside uniform ground only follow their natural and forced neighbors,
+   * the others (start tile, borders between grounds) try every neighbor.
+   */
+  private getDirections(grid: NavigationGrid, node: SearchNode): Array<[number, number]> {
+    const { x, y, parent } = node
+    if (!parent || !this.isUniform(grid, x, y)) {
+      return grid.getNeighbors(x, y, this.diagonalMovement).map(neighbor => [neighbor.x - x, neighbor.y - y])
+    }
+
+    const dx = Math.sign(x - parent.x)
+    const dy = Math.sign(y - parent.y)
+    const walkable = (offsetX: number, offsetY: number) => grid.isWalkable(x + offsetX, y + offsetY)
+    const directions: Array<[number, number]> = []
+
+    switch (this.diagonalMovement) {
+      case PF.DiagonalMovement.Never:
+        // Straight moves only: forward and both sides
+        directions.push(dx !== 0 ? [dx, 0] : [0, dy])
+        directions.push(dx !== 0 ? [0, 1] : [1, 0], dx !== 0 ? [0, -1] : [-1, 0])
+        break
+      case PF.DiagonalMovement.OnlyWhenNoObstacles:
+        if (dx !== 0 && dy !== 0) {
+          directions.push([dx, 0], [0, dy], [dx, dy])
+        } else if (dx !== 0) {
+          directions.push([dx, 0], [dx, 1], [dx, -1], [0, 1], [0, -1])
+        } else {
+          directions.push([0, dy], [1, dy], [-1, dy], [1, 0], [-1, 0])
+        }
+        break
+      default: // Always, IfAtMostOneObstacle
+        if (dx !== 0 && dy !== 0) {
+          directions.push([dx, 0], [0, dy], [dx, dy])
+          if (!walkable(-dx, 0)) directions.push([-dx, dy])
+          if (!walkable(0, -dy)) directions.push([dx, -dy])
+        } else if (dx !== 0) {
+          directions.push([dx, 0])
+          if (!walkable(0, 1)) directions.push([dx, 1])
+          if (!walkable(0, -1)) directions.push([dx, -1])
+        } else {
+          directions.push([0, dy])
+          if (!walkable(1, 0)) directions.push([1, dy])
+          if (!walkable(-1, 0)) directions.push([-1, dy])
+        }
+    }
+    return directions
+  }
+
+  /**
+   * Move from a tile in one direction until reaching a jump point
+   * Returns null when the line runs into something impassable before finding one.
+   */
+  private jump(grid: NavigationGrid, fromX: number, fromY: number, dx: number, dy: number, endX: number, endY: number): JumpPoint | null {
+    const distance = dx !== 0 && dy !== 0 ? Math.SQRT2 : 1
+    let x = fromX
+    let y = fromY
+    let cost = 0
+
+    while (true) {
+      if (!grid.canMove(x, y, x + dx, y + dy, this.diagonalMovement)) return null
+      const groundChanged = !this.isSameGround(grid, x, y, x + dx, y + dy)
+      x += dx
+      y += dy
+      cost += distance * grid.getMovementCost(x, y)
+
+      if (x === endX && y === endY) return { x, y, cost }
+      if (groundChanged || !this.isUniform(grid, x, y) || this.hasForcedNeighbor(grid, x, y, dx, dy)) {
+        return { x, y, cost }
+      }
+
+      // Stop where a straight line branching off leads to a jump point
+      if (dx !== 0 && dy !== 0) {
+        if (this.jump(grid, x, y, dx, 0, endX, endY) || this.jump(grid, x, y, 0, dy, endX, endY)) {
+          return { x, y, cost }
+        }
+      } else if (dy !== 0 && this.diagonalMovement === PF.DiagonalMovement.Never) {
+        if (this.jump(grid, x, y, 1, 0, endX, endY) || this.jump(grid, x, y, -1, 0, endX, endY)) {
+          return { x, y, cost }
+        }
+      }
+    }
+  }
+
+  /**
+   * Check whether an obstacle next to a tile makes a neighbor reachable only through it
+   * (the tile is in uniform ground, so any walkable neighbor is the same ground)
+   */
+  private hasForcedNeighbor(grid: NavigationGrid, x: number, y: number, dx: number, dy: number): boolean {
+    const walkable = (offsetX: number, offsetY: number) => grid.isWalkable(x + offsetX, y + offsetY)
+
+    if (this.diagonalMovement === PF.DiagonalMovement.Never ||
+      this.diagonalMovement === PF.DiagonalMovement.OnlyWhenNoObstacles) {
+      if (dx !== 0 && dy !== 0) return false
+      if (dx !== 0) {
+        return (walkable(0, -1) && !walkable(-dx, -1)) || (walkable(0, 1) && !walkable(-dx, 1))
+      }
+      return (walkable(-1, 0) && !walkable(-1, -dy)) || (walkable(1, 0) && !walkable(1, -dy))
+    }
+
+    if (dx !== 0 && dy !== 0) {
+      return (walkable(-dx, dy) && !walkable(-dx, 0)) || (walkable(dx, -dy) && !walkable(0, -dy))
+    }
+    if (dx !== 0) {
+      return (walkable(dx, 1) && !walkable(0, 1)) || (walkable(dx, -1) && !walkable(0, -1))
+    }
+    return (walkable(1, dy) && !walkable(1, 0)) || (walkable(-1, dy) && !walkable(-1, 0))
+  }
+
+  /**
+   * Check whether two tiles are flat ground of the same height and terrain cost
+   */
+  private isSameGround(grid: NavigationGrid, x: number, y: number, otherX: number, otherY: number): boolean {
+    const height = grid.getFlatHeight(x, y)
+    return height !== null &&
+      grid.getFlatHeight(otherX, otherY) === height &&
+      grid.getMovementCost(x, y) === grid.getMovementCost(otherX, otherY)
+  }
+
+  /**
+   * Check whether a tile and all its walkable neighbors are the same ground
+   */
+  private isUniform(grid: NavigationGrid, x: number, y: number): boolean {
+    for (let offsetY = -1; offsetY <= 1; offsetY++) {
+      for (let offsetX = -1; offsetX <= 1; offsetX++) {
+        if (offsetX === 0 && offsetY === 0) continue
+        if (grid.isWalkable(x + offsetX, y + offsetY) && !this.isSameGround(grid, x, y, x + offsetX, y + offsetY)) {
+          return false
+        }
+      }
+    }
+    return true
+  }
+
+  /**
+   * Fill in the tiles between consecutive jump points (always straight or diagonal lines)
+   */
+  private expandPath(jumpPoints: number[][]): number[][] {
+    const path: number[][] = jumpPoints.slice(0, 1)
+    for (let i = 1; i < jumpPoints.length; i++) {
+      const [fromX, fromY] = jumpPoints[i - 1]!
+      const [toX, toY] = jumpPoints[i]!
+      const dx = Math.sign(toX! - fromX!)
+      const dy = Math.sign(toY! - fromY!)
+      for (let x = fromX!, y = fromY!; x !== toX || y !== toY;) {
+        x += dx
+        y += dy
+        path.push([x, y])
+      }
+    }
+    return path
+  }
+}
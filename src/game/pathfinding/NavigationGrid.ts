@@ -0,0 +1,253 @@
+import * as PF from 'pathfinding'
+import { RAMP_DIRECTION_OFFSETS, type RampDirection } from '../maps/MapData'
+
+/**
+ * Terrain lookup used by the grid to decide which moves are possible and what they cost
+ */
+export interface TerrainSource {
+  getTileHeight(isoX: number, isoY: number): number // Ground elevation in levels
+  getRampDirection(isoX: number, isoY: number): RampDirection | null // Direction a ramp on the tile climbs towards
+  getMovementCost(isoX: number, isoY: number): number // Cost multiplier for walking on the tile
+}
+
+/**
+ * Tile position in grid coordinates
+ */
+export interface GridTile {
+  x: number
+  y: number
+}
+
+// Neighbor offsets: orthogonal first, then diagonal
+const NEIGHBOR_OFFSETS: Array<[number, number]> = [
+  [0, -1], [1, 0], [0, 1], [-1, 0],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+]
+
+/**
+ * Navigation grid of the world, treated as a 3D surface
+ *
+ * Owned by the scene and updated in place when obstacles change (setBlocked), so
+ * searches never rebuild it. Blocked tiles are kept in a flat byte array, which
+ * makes cloning cheap; heights, ramps and costs are read from the terrain source.
+ * The grid covers a rectangle of the world starting at its origin, which can be
+ * anywhere (negative coordinates included), e.g. the chunks currently loaded.
+ *
+ * Two flat tiles are connected when their heights differ by at most one level: a
+ * single step can be climbed without a ramp, higher differences can't. Ramps (or
+ * stairs) connect their low side to one level and their high side to the next one,
+ * and can only be entered where their edge is at the same elevation as the other
+ * tile: never from the sides, except from a parallel ramp.
+ * Diagonal moves are only allowed between flat tiles of the same height, and the
+ * diagonal movement policy checks the two corner tiles for a valid route.
+ * Each tile also has a movement cost (from its terrain) used by the finders.
+ */
+export class NavigationGrid {
+  private width: number = 0
+  private height: number = 0
+  private originX: number = 0 // Grid coordinates of the first tile
+  private originY: number = 0
+  private blocked: Uint8Array = new Uint8Array(0) // 1 = blocked, by tile index (see getIndex())
+  private terrain: TerrainSource
+
+  constructor(width: number, height: number, terrain: TerrainSource) {
+    this.terrain = terrain
+    this.reset(width, height)
+  }
+
+  getWidth(): number {
+    return this.width
+  }
+
+  getHeight(): number {
+    return this.height
+  }
+
+  /**
+   * Get the grid coordinates of the first tile of the grid
+   */
+  getOrigin(): GridTile {
+    return { x: this.originX, y: this.originY }
+  }
+
+  /**
+   * Resize the grid, move it to an origin and make every tile walkable
+   */
+  reset(width: number, height: number, originX: number = 0, originY: number = 0) {
+    this.width = width
+    this.height = height
+    this.originX = originX
+    this.originY = originY
+    this.blocked = new Uint8Array(width * height)
+  }
+
+  /**
+   * Move the grid to a new rectangle, keeping the tiles it shares with the old one
+   * Tiles new to the grid are blocked. Only rows are copied, so the grid can follow
+   * the loaded part of the world without being rebuilt tile by tile.
+   */
+  setBounds(originX: number, originY: number, width: number, height: number) {
+    if (originX === this.originX && originY === this.originY && width === this.width && height === this.height) return
+    
+    const blocked = new Uint8Array(width * height).fill(1)
+    const minX = Math.max(originX, this.originX)
+    const maxX = Math.min(originX + width, this.originX + this.width) // Excluded
+    const minY = Math.max(originY, this.originY)
+    const maxY = Math.min(originY + height, this.originY + this.height) // Excluded
+    for (let isoY = minY; isoY < maxY && minX < maxX; isoY++) {
+      const from = this.getIndex(minX, isoY)
+      blocked.set(this.blocked.subarray(from, from + maxX - minX), (isoY - originY) * width + (minX - originX))
+    }
+    
+    this.width = width
+    this.height = height
+    this.originX = originX
+    this.originY = originY
+    this.blocked = blocked
+  }
+
+  isInside(isoX: number, isoY: number): boolean {
+    return isoX >= this.originX && isoX < this.originX + this.width &&
+      isoY >= this.originY && isoY < this.originY + this.height
+  }
+
+  /**
+   * Get the index of a tile inside the grid (row by row from the origin)
+   * Searches use it to identify tiles.
+   */
+  getIndex(isoX: number, isoY: number): number {
+    return (isoY - this.originY) * this.width + (isoX - this.originX)
+  }
+
+  /**
+   * Get the tile at an index (see getIndex())
+   */
+  getTile(index: number): GridTile {
+    return { x: this.originX + index % this.width, y: this.originY + Math.floor(index / this.width) }
+  }
+
+  /**
+   * Check whether a tile is inside the grid and not blocked
+   */
+  isWalkable(isoX: number, isoY: number): boolean {
+    return this.isInside(isoX, isoY) && this.blocked[this.getIndex(isoX, isoY)] === 0
+  }
+
+  /**
+   * Block or unblock a tile (tiles outside the grid are ignored)
+   */
+  setBlocked(isoX: number, isoY: number, blocked: boolean = true) {
+    if (!this.isInside(isoX, isoY)) return
+    this.blocked[this.getIndex(isoX, isoY)] = blocked ? 1 : 0
+  }
+
+  /**
+   * Get the cost multiplier for walking on a tile
+   */
+  getMovementCost(isoX: number, isoY: number): number {
+    return this.terrain.getMovementCost(isoX, isoY)
+  }
+
+  /**
+   * Get the elevation (in levels) of a tile's edge on the side facing (dx, dy)
+   * Returns null for the sides of a ramp, which can't be walked over
+   */
+  getEdgeHeight(isoX: number, isoY: number, dx: number, dy: number): number | null {
+    const base = this.terrain.getTileHeight(isoX, isoY)
+    const direction = this.terrain.getRampDirection(isoX, isoY)
+    if (!direction) return base
+
+    const offset = RAMP_DIRECTION_OFFSETS[direction]
+    if (dx === offset.dx && dy === offset.dy) return base + 1 // High side
+    if (dx === -offset.dx && dy === -offset.dy) return base // Low side
+    return null
+  }
+
+  /**
+   * Check whether the character can step from a tile to an orthogonally adjacent tile
+   * (walkability of the tiles is not checked)
+   */
+  canStep(fromX: number, fromY: number, toX: number, toY: number): boolean {
+    const dx = toX - fromX
+    const dy = toY - fromY
+    const fromEdge = this.getEdgeHeight(fromX, fromY, dx, dy)
+    const toEdge = this.getEdgeHeight(toX, toY, -dx, -dy)
+    if (fromEdge !== null && toEdge !== null) {
+      if (fromEdge === toEdge) return true
+      // Single step between flat tiles
+      return Math.abs(fromEdge - toEdge) === 1 &&
+        this.terrain.getRampDirection(fromX, fromY) === null &&
+        this.terrain.getRampDirection(toX, toY) === null
+    }
+
+    // Side by side ramps climbing the same way form a wider ramp
+    const fromRamp = this.terrain.getRampDirection(fromX, fromY)
+    return fromRamp !== null &&
+      fromRamp === this.terrain.getRampDirection(toX, toY) &&
+      this.terrain.getTileHeight(fromX, fromY) === this.terrain.getTileHeight(toX, toY)
+  }
+
+  /**
+   * Get the elevation (in levels) of flat ground, or null for a ramp
+   */
+  getFlatHeight(isoX: number, isoY: number): number | null {
+    return this.terrain.getRampDirection(isoX, isoY) === null ? this.terrain.getTileHeight(isoX, isoY) : null
+  }
+
+  /**
+   * Check whether the character can move from a tile to one of its 8 neighbors
+   * Diagonal moves stay on flat ground of a single height, and the diagonal movement
+   * policy decides how many of the two corner tiles must offer a valid route
+   */
+  canMove(fromX: number, fromY: number, toX: number, toY: number, diagonalMovement: PF.DiagonalMovement): boolean {
+    if (!this.isWalkable(toX, toY)) return false
+    const dx = toX - fromX
+    const dy = toY - fromY
+    if (dx === 0 || dy === 0) {
+      return this.canStep(fromX, fromY, toX, toY)
+    }
+
+    if (diagonalMovement === PF.DiagonalMovement.Never) return false
+    const height = this.getFlatHeight(fromX, fromY)
+    if (height === null || this.getFlatHeight(toX, toY) !== height) return false
+
+    // A corner is passable when the character could also go around through it
+    const cornerX = this.isWalkable(fromX + dx, fromY) && this.canStep(fromX, fromY, fromX + dx, fromY) && this.canStep(fromX + dx, fromY, toX, toY)
+    const cornerY = this.isWalkable(fromX, fromY + dy) && this.canStep(fromX, fromY, fromX, fromY + dy) && this.canStep(fromX, fromY + dy, toX, toY)
+    switch (diagonalMovement) {
+      case PF.DiagonalMovement.Always:
+        return true
+      case PF.DiagonalMovement.IfAtMostOneObstacle:
+        return cornerX || cornerY
+      default: // OnlyWhenNoObstacles
+        return cornerX && cornerY
+    }
+  }
+
+  /**
+   * Get the tiles the character can move to from a tile
+   * Only orthogonal neighbors unless a diagonal movement policy is given
+   */
+  getNeighbors(isoX: number, isoY: number, diagonalMovement: PF.DiagonalMovement = PF.DiagonalMovement.Never): GridTile[] {
+    const neighbors: GridTile[] = []
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      if (this.canMove(isoX, isoY, isoX + dx, isoY + dy, diagonalMovement)) {
+        neighbors.push({ x: isoX + dx, y: isoY + dy })
+      }
+    }
+    return neighbors
+  }
+
+  /**
+   * Copy the grid (changes to the copy don't affect the original)
+   */
+  clone(): NavigationGrid {
+    const copy = new NavigationGrid(0, 0, this.terrain)
+    copy.width = this.width
+    copy.height = this.height
+    copy.originX = this.originX
+    copy.originY = this.originY
+    copy.blocked = this.blocked.slice()
+    return copy
+  }
+}
@@ -0,0 +1,237 @@
+import * as PF from 'pathfinding'
+import type { NavigationGrid } from './NavigationGrid'
+import { backtrace, SearchNodeHeap, type GridFinder, type SearchNode } from './GridFinder'
+import { WeightedAStarFinder } from './WeightedAStarFinder'
+import { BiDirectionalAStarFinder } from './BiDirectionalAStarFinder'
+import { JumpPointFinder } from './JumpPointFinder'
+
+export type PathfindingAlgorithm = 'astar' | 'jps' | 'dijkstra' | 'best-first' | 'bi-astar'
+export type HeuristicName = 'manhattan' | 'euclidean' | 'octile' | 'chebyshev'
+export type DiagonalPolicy = 'never' | 'always' | 'at-most-one-obstacle' | 'no-obstacles'
+
+export const PATHFINDING_ALGORITHMS: Record<PathfindingAlgorithm, string> = {
+  'astar': 'A*',
+  'jps': 'Jump point search',
+  'dijkstra': 'Dijkstra',
+  'best-first': 'Best-first',
+  'bi-astar': 'Bi-directional A*'
+}
+
+export const HEURISTICS: Record<HeuristicName, (dx: number, dy: number) => number> = {
+  manhattan: PF.Heuristic.manhattan,
+  euclidean: PF.Heuristic.euclidean,
+  octile: PF.Heuristic.octile,
+  chebyshev: PF.Heuristic.chebyshev
+}
+
+export const DIAGONAL_POLICIES: Record<DiagonalPolicy, PF.DiagonalMovement> = {
+  'never': PF.DiagonalMovement.Never,
+  'always': PF.DiagonalMovement.Always,
+  'at-most-one-obstacle': PF.DiagonalMovement.IfAtMostOneObstacle,
+  'no-obstacles': PF.DiagonalMovement.OnlyWhenNoObstacles
+}
+
+// Heuristic weight that makes A* ignore the cost so far (greedy best-first search)
+const BEST_FIRST_WEIGHT = 1e6
+
+export interface PathfinderOptions {
+  algorithm: PathfindingAlgorithm
+  heuristic: HeuristicName // Ignored by Dijkstra
+  diagonal: DiagonalPolicy
+  weight?: number // Heuristic weight for A*, bi-directional A* and JPS (> 1 trades optimality for speed)
+  minCost?: number // Lowest movement cost of any tile (keeps the heuristic admissible)
+}
+
+/**
+ * Statistics of the last path search
+ */
+export interface PathfindingStats {
+  algorithm: PathfindingAlgorithm
+  nodesExpanded: number
+  timeMs: number
+  pathLength: number // Number of tiles in the path (0 if there is none)
+  pathCost: number // Sum of the step costs along the path
+}
+
+/**
+ * Pathfinding service with a strategy chosen at runtime
+ *
+ * Wraps the grid finders behind one findPath call: the algorithm, heuristic and
+ * diagonal movement policy can be changed at any time, and every search reports
+ * how many nodes it expanded and how long it took.
+ */
+export class Pathfinder {
+  private options: PathfinderOptions
+  private finder: GridFinder
+  private lastStats: PathfindingStats | null = null
+  private listeners: Set<(stats: PathfindingStats) => void> = new Set()
+
+  constructor(options: Partial<PathfinderOptions> = {}) {
+    this.options = {
+      algorithm: 'astar',
+      heuristic: 'octile',
+      diagonal: 'no-obstacles',
+      ...options
+    }
+    this.finder = this.createFinder()
+  }
+
+  /**
+   * Get the current options
+   */
+  getOptions(): PathfinderOptions {
+    return { ...this.options }
+  }
+
+  /**
+   * Change some of the options (the finder is rebuilt for the next search)
+   */
+  setOptions(options: Partial<PathfinderOptions>) {
+    this.options = { ...this.options, ...options }
+    this.finder = this.createFinder()
+  }
+
+  /**
+   * Find a path between two tiles with the current strategy
+   * Returns [x, y] tiles from start to end, or an empty array if there is no path
+   */
+  findPath(startX: number, startY: number, endX: number, endY: number, grid: NavigationGrid): number[][] {
+    const startTime = performance.now()
+    const result = this.finder.findPath(startX, startY, endX, endY, grid)
+    const timeMs = performance.now() - startTime
+
+    let pathCost = 0
+    for (let i = 1; i < result.path.length; i++) {
+      const [x, y] = result.path[i]!
+      const [previousX, previousY] = result.path[i - 1]!
+      const distance = x === previousX || y === previousY ? 1 : Math.SQRT2
+      pathCost += distance * grid.getMovementCost(x!, y!)
+    }
+
+    this.lastStats = {
+      algorithm: this.options.algorithm,
+      nodesExpanded: result.nodesExpanded,
+      timeMs,
+      pathLength: result.path.length,
+      pathCost
+    }
+    for (const listener of this.listeners) {
+      listener(this.lastStats)
+    }
+    return result.path
+  }
+
+  /**
+   * Find a path to the reachable tile closest to a target (for targets that can't be reached)
+   * Tiles are ranked by path distance to the target: the length of the walk between them
+   * if no tile were blocked (heights and ramps still apply), then by straight-line distance
+   * for tiles cut off from the target by the terrain, then by the cost to reach them. The
+   * path is just the start tile when no reachable tile is closer than the start.
+   */
+  findPathToClosest(startX: number, startY: number, targetX: number, targetY: number, grid: NavigationGrid): number[][] {
+    const origin = grid.getOrigin()
+    const unblocked = grid.clone()
+    unblocked.reset(grid.getWidth(), grid.getHeight(), origin.x, origin.y)
+    const pathDistances: Map<number, number> = new Map() // By tile index
+    for (const node of this.explore(targetX, targetY, unblocked, false)) {
+      pathDistances.set(grid.getIndex(node.x, node.y), node.g)
+    }
+
+    let closest: SearchNode | null = null
+    let closestPathDistance = Infinity
+    let closestDistance = Infinity
+    // Nodes come out cheapest first, so only a strictly closer tile replaces the best one
+    for (const node of this.explore(startX, startY, grid, true)) {
+      const pathDistance = pathDistances.get(grid.getIndex(node.x, node.y)) ?? Infinity
+      const distance = Math.hypot(node.x - targetX, node.y - targetY)
+      if (!closest || pathDistance < closestPathDistance || (pathDistance === closestPathDistance && distance < closestDistance)) {
+        closest = node
+        closestPathDistance = pathDistance
+        closestDistance = distance
+      }
+    }
+
+    return closest ? backtrace(closest) : []
+  }
+
+  /**
+   * Get the statistics of the last search (null before the first one)
+   */
+  getLastStats(): PathfindingStats | null {
+    return this.lastStats
+  }
+
+  /**
+   * Subscribe to search statistics
+   * Returns a function that removes the listener
+   */
+  onSearch(listener: (stats: PathfindingStats) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Create the finder for the current options
+   */
+  private createFinder(): GridFinder {
+    const { algorithm, heuristic, diagonal, weight, minCost } = this.options
+    const finderOptions = {
+      diagonalMovement: DIAGONAL_POLICIES[diagonal],
+      heuristic: HEURISTICS[heuristic],
+      weight,
+      minCost
+    }
+
+    switch (algorithm) {
+      case 'jps':
+        return new JumpPointFinder(finderOptions)
+      case 'bi-astar':
+        return new BiDirectionalAStarFinder(finderOptions)
+      case 'dijkstra':
+        return new WeightedAStarFinder({ ...finderOptions, heuristic: () => 0 })
+      case 'best-first':
+        return new WeightedAStarFinder({ ...finderOptions, weight: BEST_FIRST_WEIGHT })
+      default:
+        return new WeightedAStarFinder(finderOptions)
+    }
+  }
+
+  /**
+   * Get every tile reachable from a tile, cheapest first (Dijkstra)
+   * @param withCosts Weigh steps by the tiles' movement cost, or only by their length
+   */
+  private explore(startX: number, startY: number, grid: NavigationGrid, withCosts: boolean): SearchNode[] {
+    const diagonalMovement = DIAGONAL_POLICIES[this.options.diagonal]
+    const nodes: Map<number, SearchNode> = new Map() // By tile index
+    const open = new SearchNodeHeap()
+    const expanded: SearchNode[] = []
+
+    const start: SearchNode = { x: startX, y: startY, g: 0, f: 0, parent: null, closed: false }
+    nodes.set(grid.getIndex(startX, startY), start)
+    open.push(start)
+
+    while (!open.isEmpty()) {
+      const node = open.pop()!
+      if (node.closed) continue // Retired heap entry
+      node.closed = true
+      expanded.push(node)
+
+      for (const neighbor of grid.getNeighbors(node.x, node.y, diagonalMovement)) {
+        const key = grid.getIndex(neighbor.x, neighbor.y)
+        const existing = nodes.get(key)
+        if (existing?.closed) continue
+
+        const stepLength = neighbor.x === node.x || neighbor.y === node.y ? 1 : Math.SQRT2
+        const g = node.g + stepLength * (withCosts ? grid.getMovementCost(neighbor.x, neighbor.y) : 1)
+        if (existing && g >= existing.g) continue
+
+        if (existing) existing.closed = true // Retire the costlier entry still in the heap
+        const searchNode: SearchNode = { x: neighbor.x, y: neighbor.y, g, f: g, parent: node, closed: false }
+        nodes.set(key, searchNode)
+        open.push(searchNode)
+      }
+    }
+
+    return expanded
+  }
+}
@@ -0,0 +1,75 @@
+import * as PF from 'pathfinding'
+import type { NavigationGrid } from './NavigationGrid'
+import { backtrace, SearchNodeHeap, type GridFinder, type GridSearchResult, type SearchNode } from './GridFinder'
+
+export interface WeightedAStarFinderOptions {
+  diagonalMovement?: PF.DiagonalMovement // Defaults to OnlyWhenNoObstacles (no corner cutting)
+  heuristic?: (dx: number, dy: number) => number // Defaults to octile distance
+  weight?: number // Heuristic weight (> 1 trades optimality for speed)
+  minCost?: number // Lowest movement cost of any tile (keeps the heuristic admissible)
+}
+
+/**
+ * A* finder that accounts for per-tile movement costs
+ *
+ * The pathfinding library only knows uniform costs, so this finder walks the grid's
+ * neighbors itself: a step costs its length (1 or √2) times the cost of the tile
+ * stepped onto. Dijkstra (no heuristic) and greedy best-first (huge heuristic weight)
+ * are configurations of this finder.
+ */
+export class WeightedAStarFinder implements GridFinder {
+  private diagonalMovement: PF.DiagonalMovement
+  private heuristic: (dx: number, dy: number) => number
+  private weight: number
+  private minCost: number
+
+  constructor(options: WeightedAStarFinderOptions = {}) {
+    this.diagonalMovement = options.diagonalMovement ?? PF.DiagonalMovement.OnlyWhenNoObstacles
+    this.heuristic = options.heuristic ?? PF.Heuristic.octile
+    this.weight = options.weight ?? 1
+    this.minCost = options.minCost ?? 1
+  }
+
+  /**
+   * Find the cheapest path between two tiles
+   */
+  findPath(startX: number, startY: number, endX: number, endY: number, grid: NavigationGrid): GridSearchResult {
+    const nodes: Map<number, SearchNode> = new Map() // By tile index
+    const open = new SearchNodeHeap()
+    let nodesExpanded = 0
+
+    const start: SearchNode = { x: startX, y: startY, g: 0, f: 0, parent: null, closed: false }
+    nodes.set(grid.getIndex(startX, startY), start)
+    open.push(start)
+
+    while (!open.isEmpty()) {
+      const node = open.pop()!
+      if (node.closed) continue // Retired heap entry
+      node.closed = true
+      nodesExpanded++
+
+      if (node.x === endX && node.y === endY) {
+        return { path: backtrace(node), nodesExpanded }
+      }
+
+      for (const neighbor of grid.getNeighbors(node.x, node.y, this.diagonalMovement)) {
+        const key = grid.getIndex(neighbor.x, neighbor.y)
+        const existing = nodes.get(key)
+        if (existing?.closed) continue
+
+        const distance = neighbor.x === node.x || neighbor.y === node.y ? 1 : Math.SQRT2
+        const g = node.g + distance * grid.getMovementCost(neighbor.x, neighbor.y)
+        if (existing && g >= existing.g) continue
+
+        if (existing) existing.closed = true // Retire the costlier entry still in the heap
+
+        const h = this.weight * this.minCost * this.heuristic(Math.abs(neighbor.x - endX), Math.abs(neighbor.y - endY))
+        const searchNode: SearchNode = { x: neighbor.x, y: neighbor.y, g, f: g + h, parent: node, closed: false }
+        nodes.set(key, searchNode)
+        open.push(searchNode)
+      }
+    }
+
+    return { path: [], nodesExpanded } // No path
+  }
+}
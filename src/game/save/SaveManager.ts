@@ -0,0 +1,51 @@
+import { migrateSceneState, type SceneState } from './SceneState'
+import { FileUtils } from '../utils/FileUtils'
+
+/**
+ * Persistence for scene state
+ *
+ * Saves go to localStorage (quick save/load) or to JSON files (export/import).
+ * Loading always runs the data through the schema migrations.
+ */
+export class SaveManager {
+  private static storageKey: string = 'iso-game:save'
+
+  /**
+   * Save state to localStorage
+   */
+  static saveToStorage(state: SceneState) {
+    localStorage.setItem(SaveManager.storageKey, JSON.stringify(state))
+  }
+
+  /**
+   * Load state from localStorage
+   * Returns null if nothing was saved yet
+   */
+  static loadFromStorage(): SceneState | null {
+    const json = localStorage.getItem(SaveManager.storageKey)
+    if (json === null) return null
+    return migrateSceneState(JSON.parse(json))
+  }
+
+  /**
+   * Check if a save exists in localStorage
+   */
+  static hasStoredSave(): boolean {
+    return localStorage.getItem(SaveManager.storageKey) !== null
+  }
+
+  /**
+   * Download state as a JSON file
+   */
+  static exportToFile(state: SceneState, filename: string = 'iso-game-save.json') {
+    FileUtils.downloadJson(state, filename)
+  }
+
+  /**
+   * Read state from a JSON file chosen by the user
+   */
+  static async importFromFile(file: File): Promise<SceneState> {
+    const text = await file.text()
+    return migrateSceneState(JSON.parse(text))
+  }
+}
@@ -0,0 +1,102 @@
+import type { MapData } from '../maps/MapData'
+
+/**
+ * Versioned, serializable snapshot of the scene and character state
+ *
+ * Bump SCENE_STATE_VERSION whenever the shape of SceneState changes and register
+ * a migration from the previous version so older saves keep loading.
+ */
+
+export const SCENE_STATE_VERSION = 5
+
+export interface SceneState {
+  version: number
+  seed: number | null // Seed the world was generated from (null for hand-authored maps)
+  map: MapData // Full world layout (obstacles are stored, not regenerated)
+  world?: OpenWorldState // Open worlds only: where the map lies in the endless world
+  character: {
+    isoX: number
+    isoY: number
+    rotationY: number // Facing angle in radians
+  }
+  selectedCube: { isoX: number; isoY: number } | null
+  targetTile: { isoX: number; isoY: number } | null // Highlighted target tile
+}
+
+/**
+ * Place of a saved open world map in the world
+ * The map holds the chunks explored so far; the others are generated from the seed.
+ */
+export interface OpenWorldState {
+  origin: { isoX: number; isoY: number } // World tile of the map's (0, 0) tile
+  chunkSize: number
+  chunks: Array<{ chunkX: number; chunkY: number }> // Chunks stored in the map
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ * Each migration receives a state of version N and returns a state of version N + 1
+ */
+const migrations: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {}
+
+/**
+ * Register a migration from one schema version to the next
+ */
+export function registerSceneStateMigration(
+  fromVersion: number,
+  migrate: (state: Record<string, unknown>) => Record<string, unknown>
+) {
+  migrations[fromVersion] = migrate
+}
+
+// Version 2 added terrain heights (version 1 worlds were flat)
+registerSceneStateMigration(1, (state) => {
+  const map = state.map as Record<string, unknown> | undefined
+  return map ? { ...state, map: { ...map, heights: [] } } : state
+})
+
+// Version 3 added ramps and stairs
+registerSceneStateMigration(2, (state) => {
+  const map = state.map as Record<string, unknown> | undefined
+  return map ? { ...state, map: { ...map, ramps: [] } } : state
+})
+
+// Version 4 added terrain types (older worlds are all grass)
+registerSceneStateMigration(3, (state) => {
+  const map = state.map as Record<string, unknown> | undefined
+  return map ? { ...state, map: { ...map, terrain: [] } } : state
+})
+
+// Version 5 added open worlds (older saves restore as finite maps)
+registerSceneStateMigration(4, (state) => state)
+
+/**
+ * Upgrade a parsed save of any known version to the current schema
+ * Throws if the data is not a scene state or was written by a newer version
+ */
+export function migrateSceneState(data: unknown): SceneState {
+  if (!data || typeof data !== 'object' || typeof (data as { version?: unknown }).version !== 'number') {
+    throw new Error('Invalid save data: missing version')
+  }
+
+  let state = data as Record<string, unknown>
+  let version = state.version as number
+  if (version > SCENE_STATE_VERSION) {
+    throw new Error(`Save version ${version} is newer than supported version ${SCENE_STATE_VERSION}`)
+  }
+
+  while (version < SCENE_STATE_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) {
+      throw new Error(`No migration from save version ${version}`)
+    }
+    state = { ...migrate(state), version: version + 1 }
+    version++
+  }
+
+  const sceneState = state as unknown as SceneState
+  if (!sceneState.map || !Array.isArray(sceneState.map.obstacles) || !sceneState.character) {
+    throw new Error('Invalid save data: missing map or character')
+  }
+  return sceneState
+}
@@ -0,0 +1,43 @@
+import { normalizeBindings, type InputBindings } from '../input/InputBindings'
+
+/**
+ * Player preferences kept between sessions (separate from saved worlds)
+ */
+export interface GameSettings {
+  bindings: InputBindings // Input bindings of every action
+}
+
+/**
+ * Persistence for player settings
+ *
+ * Settings live in localStorage and are merged with the defaults when loaded, so
+ * settings saved by an older version keep working after new options are added.
+ */
+export class SettingsManager {
+  private static storageKey: string = 'iso-game:settings'
+
+  /**
+   * Load the settings (the defaults if nothing was saved or the save is unreadable)
+   */
+  static load(): GameSettings {
+    let saved: Record<string, unknown> = {}
+    try {
+      const json = localStorage.getItem(SettingsManager.storageKey)
+      if (json !== null) {
+        saved = JSON.parse(json) ?? {}
+      }
+    } catch (error) {
+      console.warn('Failed to load settings, using defaults:', error)
+    }
+    return {
+      bindings: normalizeBindings(saved.bindings)
+    }
+  }
+
+  /**
+   * Save the settings to localStorage
+   */
+  static save(settings: GameSettings) {
+    localStorage.setItem(SettingsManager.storageKey, JSON.stringify(settings))
+  }
+}
@@ -1,37 +1,119 @@
 import { Container, Graphics } from 'pixi.js'
+import type { Character, CharacterAppearance } from '../entities/Character'
 import { Character3D } from '../entities/Character3D'
+import { SpriteCharacter } from '../entities/SpriteCharacter'
+import { CharacterAtlas } from '../entities/CharacterAtlas'
 import { Cube } from '../entities/Cube'
-import { IsoUtils } from '../utils/IsoUtils'
-import * as PF from 'pathfinding'
+import { Ramp } from '../entities/Ramp'
+import { GroundChunk } from '../entities/GroundChunk'
+import { HighlightOverlay } from '../entities/HighlightOverlay'
+import { PathPreview } from '../entities/PathPreview'
+import { IsoUtils, type ViewOrientation } from '../utils/IsoUtils'
+import { RAMP_DIRECTION_OFFSETS, translateMap, type MapData, type MapObstacle, type MapRamp, type MapTerrain, type RampDirection, type RampKind, type TerrainType } from '../maps/MapData'
+import { RandomMapGenerator } from '../maps/RandomMapGenerator'
+import { SeededRandom } from '../utils/SeededRandom'
+import { SCENE_STATE_VERSION, type OpenWorldState, type SceneState } from '../save/SceneState'
+import { LevelEditor, type EditableWorld } from '../editor/LevelEditor'
+import { NavigationGrid, type TerrainSource } from '../pathfinding/NavigationGrid'
+import { DIAGONAL_POLICIES, Pathfinder } from '../pathfinding/Pathfinder'
+import { findCarvePath, findPockets, floodFill } from '../pathfinding/Connectivity'
+import { DEFAULT_TERRAIN, MIN_TERRAIN_COST, TERRAIN_TYPES } from '../maps/Terrain'
+import { Camera, type CameraOptions } from '../camera/Camera'
+import { ChunkManager, type TileBounds } from '../world/ChunkManager'
 
-export class IsoScene extends Container {
-  private gridSize: number = 20
-  private extendedGridSize: number = 0
+export interface IsoSceneOptions {
+  mapData?: MapData | null // Hand-authored map (an open world generated from the seed if not provided)
+  seed?: number // Seed for random generation (a new random seed if not provided)
+  minReachableRatio?: number // Share of walkable tiles each generated chunk must connect to its center (default 1 = all)
+  chunkSize?: number // Side of the square chunks the world is loaded by, in tiles (default 32)
+  camera?: CameraOptions // Zoom limits, follow dead zone and easing, edge scrolling
+  character?: CharacterAppearance // How the character is drawn (default the procedural 3D character)
+}
+
+/**
+ * Where the character would go for a click on a tile
+ */
+interface MovePlan {
+  targetX: number // Clicked tile (highlighted, and faced at the end of the move)
+  targetY: number
+  isCube: boolean // The clicked tile holds a cube, so the character stops next to it
+  path: number[][] // Grid path from the character's tile (empty if nothing is reachable)
+  reachesTarget: boolean // False when the path only leads to the closest reachable tile
+}
+
+export class IsoScene extends Container implements EditableWorld, TerrainSource {
+  private static readonly GROUND_LAYER_Z_INDEX = -Number.MAX_VALUE // Flat ground below every depth sorted object
+  private static readonly GROUND_Z_INDEX = 0 // Flat tiles (in the ground layer)
+  private static readonly HIGHLIGHT_Z_INDEX = 1 // Highlights on flat ground (above tiles, in the ground layer)
+  private static readonly SPAWN_MARKER_Z_INDEX = 2 // Spawn marker on flat ground (above tiles and highlights, in the ground layer)
+  private static readonly PATH_PREVIEW_Z_INDEX = 1_000_000 // Path preview above the whole world
+  private static readonly UNREACHABLE_FLASH_DURATION = 0.6 // Seconds an unreachable target stays red
+  private static readonly UNREACHABLE_COLOR = 0xff3b30
+  private static readonly ROTATION_DURATION = 0.3 // Seconds a view rotation takes
+  private static readonly CHUNK_LOADS_PER_FRAME = 1 // Chunks loaded per frame while moving around
   private tileSize: number = 64
-  private character!: Character3D
-  private pathfinder: PF.AStarFinder
-  private grid: PF.Grid
+  private character!: Character
+  private characterAppearance: CharacterAppearance = { type: 'model' } // How the character is drawn
+  private characterAtlas: CharacterAtlas = CharacterAtlas.getShared() // Renders the 3D characters into one texture
+  private pathfinder: Pathfinder
+  private navigation: NavigationGrid = new NavigationGrid(0, 0, this) // Walkable tiles of the loaded chunks (updated when obstacles change)
+  private chunks: ChunkManager // Chunks of the world loaded around the camera and the character
+  private knownChunks: Set<string> = new Set() // Open world chunks in the world data, generated or restored ("chunkX,chunkY")
   private screenWidth: number = 0
   private screenHeight: number = 0
-  private currentSceneX: number = 0
-  private currentSceneY: number = 0
-  private tiles: Map<string, Graphics> = new Map() // Store tiles by grid coordinates "isoX,isoY"
-  private selectedTile: Graphics | null = null // Currently selected target tile
+  private camera: Camera // View transform (zoom, follow or free panning)
+  private groundLayer: Container = new Container() // Flat tiles and what lies on them (depth can be negative, so it isn't sorted with the world)
+  private groundChunks: Map<string, GroundChunk> = new Map() // Flat tiles batched by chunk "chunkX,chunkY"
+  private raisedTiles: Map<string, Graphics> = new Map() // Raised tiles (depth sorted one by one) by "isoX,isoY"
   private selectedTileKey: string | null = null // Key of currently selected tile
   private obstacles: Set<string> = new Set() // Store obstacle positions as "isoX,isoY"
   private obstacleCubes: Map<string, Cube> = new Map() // Store obstacle cubes by grid coordinates "isoX,isoY"
-  private adjacentTiles: Graphics[] = [] // Store currently highlighted adjacent tiles
+  private obstacleColors: Map<string, number> = new Map() // Custom cube colors from the map by "isoX,isoY"
+  private obstacleLevels: Map<string, number> = new Map() // Stacked cube count (if more than 1) by "isoX,isoY"
+  private tileHeights: Map<string, number> = new Map() // Ground elevation in levels (if raised) by "isoX,isoY"
+  private ramps: Map<string, { direction: RampDirection; kind: RampKind }> = new Map() // Ramps and stairs by "isoX,isoY"
+  private rampBlocks: Map<string, Ramp> = new Map() // Ramp and stairs blocks by grid coordinates "isoX,isoY"
+  private terrain: Map<string, TerrainType> = new Map() // Ground surface (if not grass) by "isoX,isoY"
+  private mapData: MapData | null = null // Hand-authored map (null = open world generated chunk by chunk)
+  private mapGenerator: RandomMapGenerator = new RandomMapGenerator() // Fallback generator
+  private seed: number = 0 // Seed used by the random generator
+  private spawn: { isoX: number; isoY: number } = { isoX: 0, isoY: 0 } // Character starting tile
+  private minReachableRatio: number = 1 // Generated chunks carve paths until their center reaches this share of walkable tiles
+  private highlights: HighlightOverlay // Tile highlights (target, adjacent tiles, preview, unreachable)
   private selectedCube: Cube | null = null // Currently selected cube
-  private originalCubeColor: number = 0x8B4513 // Original brown color for cubes
+  private selectedCubeKey: string | null = null // Key of currently selected cube
+  private defaultCubeColor: number = 0x8B4513 // Brown color for obstacle cubes
+  private originalCubeColor: number = 0x8B4513 // Original color of the selected cube
+  private editor: LevelEditor // Level editor (clicks edit the map when enabled)
+  private spawnMarker: Graphics = new Graphics() // Spawn point outline (visible in editor mode)
+  private pathPreview: PathPreview // Route to the hovered (or first tapped) tile
+  private previewTileKey: string | null = null // Tile the preview leads to
+  private unreachableFlash: { isoX: number; isoY: number; remaining: number } | null = null // Red target being shown
+  private noRouteListeners: Set<(isoX: number, isoY: number) => void> = new Set()
+  private moveInput: { x: number; y: number; speed: number } = { x: 0, y: 0, speed: 1 } // Direct movement in grid coordinates (keyboard, gamepad)
+  private orientation: ViewOrientation = 0 // View orientation (the one being turned to while rotating)
+  private viewTurns: number = 0 // Quarter turns the world is laid out with (between orientations while rotating)
+  private viewRotation: { from: number; to: number; elapsed: number } | null = null // View rotation being animated
 
-  constructor(screenWidth: number, screenHeight: number) {
+  constructor(screenWidth: number, screenHeight: number, options: IsoSceneOptions = {}) {
     super()
     
+    const mapData = options.mapData ?? null
+    this.seed = options.seed ?? SeededRandom.createSeed()
+    this.minReachableRatio = options.minReachableRatio ?? this.minReachableRatio
+    this.characterAppearance = options.character ?? this.characterAppearance
+    this.editor = new LevelEditor(this)
+    this.spawnMarker.visible = false
+    
     // Enable zIndex sorting for proper cube rendering order
     this.sortableChildren = true
+    this.groundLayer.sortableChildren = true
+    this.groundLayer.zIndex = IsoScene.GROUND_LAYER_Z_INDEX
+    this.addChild(this.groundLayer)
     
     this.screenWidth = screenWidth
     this.screenHeight = screenHeight
+    this.camera = new Camera(screenWidth, screenHeight, options.camera)
     
     // Calculate tileSize based on screen dimensions to maintain consistent proportions
     // Use a base tile size that scales with screen width (aim for ~10-15 tiles visible)
@@ -41,744 +123,1275 @@ export class IsoScene extends Container {
     const calculatedTileSize = Math.max(32, Math.min(128, (screenWidth / targetTilesVisible)))
     this.tileSize = ((calculatedTileSize / 3) * 1.5) / 2 // Divide by 2 to subdivide tiles into 4
     
-    // Calculate extended grid size to cover the entire screen when panned
-    // For isometric, we need more tiles to cover the diagonal view
-    // Multiply by 2 to double the grid resolution (each original tile becomes 4 tiles)
-    this.extendedGridSize = Math.max(
-      this.gridSize * 2, 
-      Math.ceil(this.screenWidth / this.tileSize) + 20,
-      Math.ceil(this.screenHeight / (this.tileSize / 2)) + 20
-    )
+    this.pathPreview = new PathPreview(this.tileSize)
+    this.pathPreview.zIndex = IsoScene.PATH_PREVIEW_Z_INDEX
+    this.highlights = new HighlightOverlay(this.groundLayer, this.tileSize, (mark, isoX, isoY) => this.placeHighlight(mark, isoX, isoY))
     
-    // Initialize pathfinder with extended grid size
+    // Initialize pathfinder
     // Enable diagonal movement (8 directions) but don't allow cutting corners through obstacles
-    this.pathfinder = new PF.AStarFinder({
-      allowDiagonal: true,
-      dontCrossCorners: true
+    // Terrain costs make routes prefer cheap tiles (roads) over expensive ones (mud, water)
+    // The algorithm, heuristic and diagonal policy can be changed at runtime
+    this.pathfinder = new Pathfinder({
+      algorithm: 'astar',
+      diagonal: 'no-obstacles',
+      minCost: MIN_TERRAIN_COST
     })
     
-    // Create obstacles positions first (for pathfinding)
-    this.createRandomObstaclePositions()
-    
-    // Build pathfinding grid with obstacles marked as blocked
-    const matrix = Array(this.extendedGridSize).fill(null).map(() => Array(this.extendedGridSize).fill(0))
-    for (const obstacleKey of this.obstacles) {
-      const parts = obstacleKey.split(',')
-      if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-        const isoX = Number(parts[0])
-        const isoY = Number(parts[1])
-        if (!isNaN(isoX) && !isNaN(isoY) && isoX >= 0 && isoX < this.extendedGridSize && isoY >= 0 && isoY < this.extendedGridSize) {
-          const row = matrix[isoY]
-          if (row) {
-            row[isoX] = 1 // Mark as blocked (note: matrix uses [row][col] = [y][x])
-          }
-        }
-      }
+    // The world is shown chunk by chunk around the camera and the character
+    this.chunks = new ChunkManager({
+      hasChunk: (chunkX, chunkY) => this.hasChunk(chunkX, chunkY),
+      loadChunk: (chunkX, chunkY) => this.loadChunk(chunkX, chunkY),
+      unloadChunk: (chunkX, chunkY) => this.unloadChunk(chunkX, chunkY)
+    }, { chunkSize: options.chunkSize })
+    
+    // Use the hand-authored map if provided, otherwise fall back to an open world
+    // generated from the seed (starting with the spawn's chunk)
+    this.mapData = mapData
+    if (mapData) {
+      this.addMapData(mapData)
+      this.spawn = { isoX: mapData.spawn.isoX, isoY: mapData.spawn.isoY }
+    } else {
+      this.spawn = this.generateChunk(0, 0)!.spawn
     }
-    this.grid = new PF.Grid(matrix)
-
-    this.createGrid()
-    // Create obstacle cubes after grid so they appear on top
-    this.createObstacleCubes()
+    
+    this.updateSpawnMarker()
     this.createCharacter()
     this.updateScenePosition() // Set initial position
+    this.updateChunks() // Load everything in view at once
   }
 
   /**
-   * Create isometric grid tiles (diamond-shaped squares)
+   * Create the display object of a raised tile (flat tiles are drawn by their ground chunk)
    */
-  private createGrid() {
-    // Grey tiles with light grey strokes
-    const tileColor = 0x808080 // Grey
-    const borderColor = 0xb0b0b0 // Light grey
-    const obstacleColor = 0x404040 // Dark grey for obstacles
-    const obstacleBorderColor = 0x505050 // Darker grey border for obstacles
+  private createRaisedTile(isoX: number, isoY: number) {
+    const tile = new Graphics()
     
-    for (let isoX = 0; isoX < this.extendedGridSize; isoX++) {
-      for (let isoY = 0; isoY < this.extendedGridSize; isoY++) {
-        const tile = new Graphics()
-        
-        // Convert isometric grid coordinates to screen coordinates
-        const screenPos = IsoUtils.isoToScreen(isoX, isoY, this.tileSize)
-        
-        // Draw diamond-shaped isometric tile
-        // Make tiles larger to eliminate gaps and match expected size
-        // Keep proportions correct for coordinate system (halfHeight = tileSize/4)
-        const halfWidth = this.tileSize / 2
-        const halfHeight = this.tileSize / 4
-        // Scale up tiles to eliminate gaps (scale factor accounts for visual size)
-        const scale = 2.0
-        const scaledHalfWidth = halfWidth * scale
-        const scaledHalfHeight = halfHeight * scale
-        
-        // Diamond points: top, right, bottom, left
-        tile.poly([
-          screenPos.x, screenPos.y - scaledHalfHeight,           // Top
-          screenPos.x + scaledHalfWidth, screenPos.y,            // Right
-          screenPos.x, screenPos.y + scaledHalfHeight,           // Bottom
-          screenPos.x - scaledHalfWidth, screenPos.y             // Left
-        ])
-        
-        // Check if this tile is an obstacle
-        const tileKey = `${isoX},${isoY}`
-        const isObstacle = this.obstacles.has(tileKey)
-        
-        // Use dark grey for obstacles, normal grey for walkable tiles
-        tile.fill(isObstacle ? obstacleColor : tileColor)
-        tile.stroke({ width: 1, color: isObstacle ? obstacleBorderColor : borderColor })
-        
-        // Store tile reference by grid coordinates
-        this.tiles.set(tileKey, tile)
-        
-        this.addChild(tile)
-      }
-    }
+    // Store tile reference by grid coordinates
+    const tileKey = `${isoX},${isoY}`
+    this.raisedTiles.set(tileKey, tile)
+    
+    this.placeTile(tile, isoX, isoY)
+    this.addChild(tile)
   }
 
   /**
-   * Create random obstacle positions (for pathfinding)
-   * Obstacles are placed randomly but avoid the character's starting position
+   * Check whether a tile exists and its chunk is loaded
    */
-  private createRandomObstaclePositions() {
-    this.obstacles.clear()
-    
-    // Calculate obstacle density (about 7.5% of tiles will be obstacles)
-    const totalTiles = this.extendedGridSize * this.extendedGridSize
-    const obstacleCount = Math.floor(totalTiles * 0.075)
-    
-    // Get character starting position to avoid placing obstacles there
-    const centerIsoX = Math.round(this.extendedGridSize / 2)
-    const centerIsoY = Math.round(this.extendedGridSize / 2)
-    
-    // Also avoid a small area around the character (3x3 tiles)
-    const avoidRadius = 1
-    
-    // Generate random obstacle positions
-    let placed = 0
-    const maxAttempts = obstacleCount * 10 // Prevent infinite loop
-    let attempts = 0
-    
-    while (placed < obstacleCount && attempts < maxAttempts) {
-      attempts++
-      
-      const isoX = Math.floor(Math.random() * this.extendedGridSize)
-      const isoY = Math.floor(Math.random() * this.extendedGridSize)
-      const tileKey = `${isoX},${isoY}`
-      
-      // Skip if already an obstacle
-      if (this.obstacles.has(tileKey)) {
-        continue
-      }
-      
-      // Skip if too close to character starting position
-      const distanceX = Math.abs(isoX - centerIsoX)
-      const distanceY = Math.abs(isoY - centerIsoY)
-      if (distanceX <= avoidRadius && distanceY <= avoidRadius) {
-        continue
-      }
-      
-      // Add obstacle to set
-      this.obstacles.add(tileKey)
-      placed++
-    }
+  private isTileLoaded(isoX: number, isoY: number): boolean {
+    const { chunkX, chunkY } = this.chunks.getChunkAt(isoX, isoY)
+    return this.isInsideWorld(isoX, isoY) && this.chunks.isLoaded(chunkX, chunkY)
   }
 
   /**
-   * Create 3D cubes for obstacles
-   * Obstacles are 3D cubes with brown color
+   * Move a raised tile to where it is drawn in the current view orientation
+   * The tile's origin is the center of its top face.
    */
+  private placeTile(tile: Graphics, gridX: number, gridY: number) {
+    const screenPos = this.toWorld(gridX, gridY, this.getTileHeight(gridX, gridY))
+    tile.position.set(screenPos.x, screenPos.y)
+    
+    // Raised tiles are depth sorted with cubes (just behind anything standing on them)
+    tile.zIndex = this.getDepthZIndex(gridX, gridY) - 1
+  }
+
   /**
-   * Create 3D cubes for obstacles
-   * Obstacles are 3D cubes with brown color
+   * Move a highlight mark onto its tile's top face
+   * Marks on flat tiles lie in the ground layer; marks on raised tiles are depth sorted
+   * just above their tile (and below ramps and anything standing on it).
    */
-  private createObstacleCubes() {
-    // Remove existing obstacle cubes
-    for (const cube of this.obstacleCubes.values()) {
-      cube.destroy()
-      this.removeChild(cube)
-    }
-    this.obstacleCubes.clear()
-    
-    // Brown color for obstacles (0x8B4513 is saddle brown)
-    const obstacleColor = 0x8B4513
-    
-    // Create 3D cube for each obstacle
-    for (const obstacleKey of this.obstacles) {
-      const parts = obstacleKey.split(',')
-      if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-        const isoX = Number(parts[0])
-        const isoY = Number(parts[1])
-        if (!isNaN(isoX) && !isNaN(isoY)) {
-          const obstacleCube = new Cube(isoX, isoY, this.tileSize, obstacleColor)
-          this.obstacleCubes.set(obstacleKey, obstacleCube)
-          
-          // Initial zIndex will be set by updateZOrdering() based on Y position
-          // For now, set a base zIndex based on isometric position
-          const screenPos = IsoUtils.isoToScreen(isoX, isoY, this.tileSize)
-          obstacleCube.zIndex = Math.floor(screenPos.y * 10)
-          
-          this.addChild(obstacleCube)
-        }
-      }
+  private placeHighlight(mark: Graphics, gridX: number, gridY: number) {
+    const height = this.getTileHeight(gridX, gridY)
+    const screenPos = this.toWorld(gridX, gridY, height)
+    mark.position.set(screenPos.x, screenPos.y)
+    mark.zIndex = height > 0
+      ? this.getDepthZIndex(gridX, gridY) - 0.75
+      : IsoScene.HIGHLIGHT_Z_INDEX
+    const layer = height > 0 ? this : this.groundLayer
+    if (mark.parent !== layer) {
+      layer.addChild(mark)
     }
   }
-  
+
   /**
-   * Reset a tile to its default color (grey or dark grey for obstacles)
+   * Draw a tile: diamond-shaped top face at the tile's elevation, plus the two
+   * visible side faces down to the ground for raised tiles
+   * The tile is drawn around its origin (see placeTile()), so rotating the view
+   * only moves it.
    */
-  private resetTileColor(gridX: number, gridY: number) {
-    const tileKey = `${gridX},${gridY}`
-    const tile = this.tiles.get(tileKey)
-    if (!tile) return
-    
-    const isObstacle = this.obstacles.has(tileKey)
-    const tileColor = isObstacle ? 0x404040 : 0x808080 // Dark grey for obstacles, grey for walkable
-    const borderColor = isObstacle ? 0x505050 : 0xb0b0b0
+  private drawTile(tile: Graphics, gridX: number, gridY: number, fillColor: number, borderColor: number) {
+    const height = this.getTileHeight(gridX, gridY)
     
-    tile.clear()
-    const screenPos = IsoUtils.isoToScreen(gridX, gridY, this.tileSize)
+    // Draw diamond-shaped isometric tile
+    // Make tiles larger to eliminate gaps and match expected size
+    // Keep proportions correct for coordinate system (halfHeight = tileSize/4)
     const halfWidth = this.tileSize / 2
     const halfHeight = this.tileSize / 4
+    // Scale up tiles to eliminate gaps (scale factor accounts for visual size)
     const scale = 2.0
     const scaledHalfWidth = halfWidth * scale
     const scaledHalfHeight = halfHeight * scale
     
+    tile.clear()
+    
+    if (height > 0) {
+      const depth = height * IsoUtils.getLevelHeight(this.tileSize)
+      const sideColor = this.darkenColor(fillColor, 0.25)
+      
+      // Left face (from left corner to bottom corner, down to the ground)
+      tile.poly([
+        -scaledHalfWidth, 0,
+        0, scaledHalfHeight,
+        0, scaledHalfHeight + depth,
+        -scaledHalfWidth, depth
+      ])
+      tile.fill(sideColor)
+      tile.stroke({ width: 1, color: borderColor })
+      
+      // Right face (from bottom corner to right corner, down to the ground)
+      tile.poly([
+        0, scaledHalfHeight,
+        scaledHalfWidth, 0,
+        scaledHalfWidth, depth,
+        0, scaledHalfHeight + depth
+      ])
+      tile.fill(this.darkenColor(sideColor, 0.15))
+      tile.stroke({ width: 1, color: borderColor })
+    }
+    
+    // Diamond points: top, right, bottom, left
     tile.poly([
-      screenPos.x, screenPos.y - scaledHalfHeight,
-      screenPos.x + scaledHalfWidth, screenPos.y,
-      screenPos.x, screenPos.y + scaledHalfHeight,
-      screenPos.x - scaledHalfWidth, screenPos.y
+      0, -scaledHalfHeight,           // Top
+      scaledHalfWidth, 0,             // Right
+      0, scaledHalfHeight,            // Bottom
+      -scaledHalfWidth, 0             // Left
     ])
-    tile.fill(tileColor)
+    tile.fill(fillColor)
     tile.stroke({ width: 1, color: borderColor })
   }
 
   /**
-   * Highlight a target tile in yellow and adjacent tiles in green
+   * Get the ground elevation (in levels) of a tile
    */
-  private highlightTargetTile(gridX: number, gridY: number) {
-    const tileKey = `${gridX},${gridY}`
-    
-    // Reset previous selected tile and adjacent tiles
-    if (this.selectedTile && this.selectedTileKey) {
-      this.resetTileColor(
-        parseInt(this.selectedTileKey.split(',')[0] || '0'),
-        parseInt(this.selectedTileKey.split(',')[1] || '0')
-      )
+  getTileHeight(isoX: number, isoY: number): number {
+    return this.tileHeights.get(`${isoX},${isoY}`) ?? 0
+  }
+
+  /**
+   * Get the elevation (in pixels) of the walkable surface of a tile
+   * This is how far above its ground position the character is drawn
+   */
+  private getSurfaceElevation(isoX: number, isoY: number): number {
+    // The center of a ramp is halfway up its slope
+    const rampOffset = this.ramps.has(`${isoX},${isoY}`) ? 0.5 : 0
+    return (this.getTileHeight(isoX, isoY) + rampOffset) * IsoUtils.getLevelHeight(this.tileSize)
+  }
+
+  /**
+   * Get the elevation (in pixels) of the walkable surface at any point of the grid
+   * Follows the slope of ramps between their low and high sides
+   */
+  private getSurfaceElevationAt(isoX: number, isoY: number): number {
+    const tileX = Math.round(isoX)
+    const tileY = Math.round(isoY)
+    const direction = this.getRampDirection(tileX, tileY)
+    if (!direction) return this.getSurfaceElevation(tileX, tileY)
+    
+    // Offset from the tile center along the climb: -0.5 at the low side, 0.5 at the high side
+    const { dx, dy } = RAMP_DIRECTION_OFFSETS[direction]
+    const along = (isoX - tileX) * dx + (isoY - tileY) * dy
+    return (this.getTileHeight(tileX, tileY) + 0.5 + along) * IsoUtils.getLevelHeight(this.tileSize)
+  }
+
+  /**
+   * Get the direction a ramp (or stairs) on a tile climbs towards, or null if there is none
+   */
+  getRampDirection(isoX: number, isoY: number): RampDirection | null {
+    return this.ramps.get(`${isoX},${isoY}`)?.direction ?? null
+  }
+
+  /**
+   * Get the ground surface type of a tile
+   */
+  getTerrain(isoX: number, isoY: number): TerrainType {
+    return this.terrain.get(`${isoX},${isoY}`) ?? DEFAULT_TERRAIN
+  }
+
+  /**
+   * Get the cost multiplier for walking on a tile (from its terrain)
+   */
+  getMovementCost(isoX: number, isoY: number): number {
+    return TERRAIN_TYPES[this.getTerrain(isoX, isoY)].cost
+  }
+
+  /**
+   * Get the character's speed multiplier on a tile (slower on expensive terrain)
+   */
+  private getSpeedFactor(isoX: number, isoY: number): number {
+    return 1 / this.getMovementCost(isoX, isoY)
+  }
+
+  /**
+   * Get the depth-sorting zIndex for things standing on a tile
+   * Higher Y (lower on screen) = closer to camera = higher zIndex
+   */
+  private getDepthZIndex(isoX: number, isoY: number): number {
+    return Math.floor(this.toWorld(isoX, isoY).y * 10)
+  }
+
+  /**
+   * Convert grid coordinates to world coordinates in the current view orientation
+   * @param z Elevation in levels
+   */
+  private toWorld(isoX: number, isoY: number, z: number = 0): { x: number; y: number } {
+    return IsoUtils.isoToScreen(isoX, isoY, this.tileSize, z, this.viewTurns)
+  }
+
+  /**
+   * Convert world coordinates (on the ground) to grid coordinates in the current view orientation
+   */
+  private toGrid(worldX: number, worldY: number): { x: number; y: number } {
+    return IsoUtils.screenToIso(worldX, worldY, this.tileSize, 0, this.viewTurns)
+  }
+
+  /**
+   * Add the obstacles, obstacle colors, elevations, ramps and terrain of map data to the world
+   */
+  private addMapData(map: MapData) {
+    for (const obstacle of map.obstacles) {
+      const tileKey = `${obstacle.isoX},${obstacle.isoY}`
+      this.obstacles.add(tileKey)
+      if (obstacle.color !== undefined) {
+        this.obstacleColors.set(tileKey, obstacle.color)
+      }
+      if (obstacle.levels !== undefined && obstacle.levels > 1) {
+        this.obstacleLevels.set(tileKey, obstacle.levels)
+      }
     }
     
-    // Reset previous adjacent tiles
-    for (const adjacentTile of this.adjacentTiles) {
-      // Find the tile key for this adjacent tile
-      for (const [key, tile] of this.tiles.entries()) {
-        if (tile === adjacentTile) {
-          const parts = key.split(',')
-          if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-            const adjX = parseInt(parts[0])
-            const adjY = parseInt(parts[1])
-            if (!isNaN(adjX) && !isNaN(adjY)) {
-              this.resetTileColor(adjX, adjY)
-            }
-          }
-          break
-        }
+    for (const tileHeight of map.heights ?? []) {
+      if (tileHeight.height > 0) {
+        this.tileHeights.set(`${tileHeight.isoX},${tileHeight.isoY}`, tileHeight.height)
       }
     }
-    this.adjacentTiles = []
     
-    // Get the new target tile
-    const targetTile = this.tiles.get(tileKey)
-    if (targetTile) {
-      // Clear and redraw in yellow
-      targetTile.clear()
-      const screenPos = IsoUtils.isoToScreen(gridX, gridY, this.tileSize)
-      const halfWidth = this.tileSize / 2
-      const halfHeight = this.tileSize / 4
-      const scale = 2.0
-      const scaledHalfWidth = halfWidth * scale
-      const scaledHalfHeight = halfHeight * scale
-      
-      targetTile.poly([
-        screenPos.x, screenPos.y - scaledHalfHeight,
-        screenPos.x + scaledHalfWidth, screenPos.y,
-        screenPos.x, screenPos.y + scaledHalfHeight,
-        screenPos.x - scaledHalfWidth, screenPos.y
-      ])
-      targetTile.fill(0xffff00) // Yellow
-      targetTile.stroke({ width: 1, color: 0xffd700 }) // Gold border
-      
-      this.selectedTile = targetTile
-      this.selectedTileKey = tileKey
+    for (const ramp of map.ramps ?? []) {
+      const tileKey = `${ramp.isoX},${ramp.isoY}`
+      if (this.obstacles.has(tileKey)) continue // An obstacle already fills the tile
+      this.ramps.set(tileKey, { direction: ramp.direction, kind: ramp.kind ?? 'ramp' })
     }
     
-    // Highlight adjacent tiles in green (if not obstacles)
-    const adjacentPositions = [
-      { x: gridX + 1, y: gridY }, // East
-      { x: gridX - 1, y: gridY }, // West
-      { x: gridX, y: gridY + 1 }, // South
-      { x: gridX, y: gridY - 1 }  // North
-    ]
-    
-    for (const pos of adjacentPositions) {
-      // Check bounds
-      if (pos.x < 0 || pos.x >= this.extendedGridSize || pos.y < 0 || pos.y >= this.extendedGridSize) {
-        continue
-      }
-      
-      const adjTileKey = `${pos.x},${pos.y}`
-      
-      // Skip if it's an obstacle
-      if (this.obstacles.has(adjTileKey)) {
-        continue
-      }
-      
-      const adjTile = this.tiles.get(adjTileKey)
-      if (adjTile) {
-        adjTile.clear()
-        const adjScreenPos = IsoUtils.isoToScreen(pos.x, pos.y, this.tileSize)
-        const halfWidth = this.tileSize / 2
-        const halfHeight = this.tileSize / 4
-        const scale = 2.0
-        const scaledHalfWidth = halfWidth * scale
-        const scaledHalfHeight = halfHeight * scale
-        
-        adjTile.poly([
-          adjScreenPos.x, adjScreenPos.y - scaledHalfHeight,
-          adjScreenPos.x + scaledHalfWidth, adjScreenPos.y,
-          adjScreenPos.x, adjScreenPos.y + scaledHalfHeight,
-          adjScreenPos.x - scaledHalfWidth, adjScreenPos.y
-        ])
-        adjTile.fill(0x00ff00) // Green
-        adjTile.stroke({ width: 1, color: 0x00cc00 }) // Darker green border
-        
-        this.adjacentTiles.push(adjTile)
+    for (const tile of map.terrain ?? []) {
+      if (tile.terrain !== DEFAULT_TERRAIN) {
+        this.terrain.set(`${tile.isoX},${tile.isoY}`, tile.terrain)
       }
     }
   }
 
-  private createCharacter() {
-    this.character = new Character3D()
-    // Set initial scale based on tile size
-    this.character.updateScale(this.tileSize)
-    // Start at center of extended grid (in isometric grid coordinates)
-    // Round to nearest integer to ensure character is exactly at a tile center
-    const centerIsoX = Math.round(this.extendedGridSize / 2)
-    const centerIsoY = Math.round(this.extendedGridSize / 2)
-    
-    // Convert isometric grid coordinates to screen coordinates
-    const screenPos = IsoUtils.isoToScreen(centerIsoX, centerIsoY, this.tileSize)
-    
-    // Set character position in screen coordinates (world space)
-    this.character.setPosition(screenPos.x, screenPos.y)
-    
-    // Set initial zIndex based on Y position (will be updated dynamically)
-    this.character.zIndex = Math.floor(screenPos.y * 10)
-    
-    this.addChild(this.character)
+  /**
+   * Remove everything from the world data
+   */
+  private clearWorldData() {
+    this.obstacles.clear()
+    this.obstacleColors.clear()
+    this.obstacleLevels.clear()
+    this.tileHeights.clear()
+    this.ramps.clear()
+    this.terrain.clear()
+    this.knownChunks.clear()
   }
 
   /**
-   * Check if a point is inside a diamond-shaped isometric tile
+   * Check whether a tile is part of the world (open worlds have no edge)
    */
-  private isPointInDiamond(px: number, py: number, centerX: number, centerY: number, halfWidth: number, halfHeight: number): boolean {
-    // Check if point is inside diamond using the diamond's four edges
-    // Diamond edges: top-right, bottom-right, bottom-left, top-left
-    const dx = Math.abs(px - centerX)
-    const dy = Math.abs(py - centerY)
-    
-    // Check if point is within the diamond bounds
-    // The diamond is defined by: |x|/halfWidth + |y|/halfHeight <= 1
-    return (dx / halfWidth + dy / halfHeight) <= 1
+  private isInsideWorld(isoX: number, isoY: number): boolean {
+    if (!this.mapData) return true
+    return isoX >= 0 && isoY >= 0 && isoX < this.mapData.width && isoY < this.mapData.height
   }
 
   /**
-   * Find the tile that contains the given screen coordinates
+   * Check whether a chunk holds part of the world
    */
-  private findTileAtScreenPosition(worldX: number, worldY: number): { gridX: number; gridY: number } | null {
-    // Convert screen coordinates to approximate isometric grid coordinates
-    const isoGrid = IsoUtils.screenToIso(worldX, worldY, this.tileSize)
-    
-    // Check the tile at the rounded coordinates and its neighbors
-    const candidates = [
-      { x: Math.floor(isoGrid.x), y: Math.floor(isoGrid.y) },
-      { x: Math.ceil(isoGrid.x), y: Math.floor(isoGrid.y) },
-      { x: Math.floor(isoGrid.x), y: Math.ceil(isoGrid.y) },
-      { x: Math.ceil(isoGrid.x), y: Math.ceil(isoGrid.y) },
-    ]
-    
-    const halfWidth = (this.tileSize / 2) * 2.0 // scaled
-    const halfHeight = (this.tileSize / 4) * 2.0 // scaled
+  private hasChunk(chunkX: number, chunkY: number): boolean {
+    if (!this.mapData) return true
+    const bounds = this.chunks.getChunkBounds(chunkX, chunkY)
+    return bounds.maxX >= 0 && bounds.maxY >= 0 && bounds.minX < this.mapData.width && bounds.minY < this.mapData.height
+  }
+
+  /**
+   * Generate the layout of an open world chunk and add it to the world data
+   * A chunk is only generated the first time it is needed: the world data keeps it
+   * (with the player's edits) when its tiles are unloaded.
+   * Returns the generated chunk (null if it was already known)
+   */
+  private generateChunk(chunkX: number, chunkY: number): MapData | null {
+    const chunkKey = `${chunkX},${chunkY}`
+    if (this.knownChunks.has(chunkKey)) return null
+    this.knownChunks.add(chunkKey)
+    
+    const chunk = this.mapGenerator.generateChunk(chunkX, chunkY, this.chunks.getChunkSize(), this.seed)
+    this.addMapData(chunk)
+    this.connectChunk(chunkX, chunkY, chunk.spawn)
+    return chunk
+  }
+
+  /**
+   * Create the tiles, obstacle cubes and ramp blocks of a chunk
+   * Obstacles are 3D cubes with brown color unless the map gives them a color
+   */
+  private loadChunk(chunkX: number, chunkY: number) {
+    if (!this.mapData) {
+      this.generateChunk(chunkX, chunkY)
+    }
     
-    // Check each candidate tile to see if the point is inside
-    for (const candidate of candidates) {
-      const gridX = candidate.x
-      const gridY = candidate.y
-      
-      // Clamp to grid bounds
-      if (gridX < 0 || gridX >= this.extendedGridSize || gridY < 0 || gridY >= this.extendedGridSize) {
-        continue
-      }
-      
-      // Get tile center position
-      const screenPos = IsoUtils.isoToScreen(gridX, gridY, this.tileSize)
-      
-      // Check if point is inside this tile's diamond
-      if (this.isPointInDiamond(worldX, worldY, screenPos.x, screenPos.y, halfWidth, halfHeight)) {
-        return { gridX, gridY }
+    const bounds = this.chunks.getChunkBounds(chunkX, chunkY)
+    this.fitNavigationGrid()
+    this.updateNavigationArea(bounds)
+    const ground = new GroundChunk(bounds.minX, bounds.minY, this.tileSize, this.viewTurns)
+    ground.zIndex = IsoScene.GROUND_Z_INDEX
+    this.groundChunks.set(`${chunkX},${chunkY}`, ground)
+    this.groundLayer.addChild(ground)
+    
+    for (let isoY = bounds.minY; isoY <= bounds.maxY; isoY++) {
+      for (let isoX = bounds.minX; isoX <= bounds.maxX; isoX++) {
+        if (!this.isInsideWorld(isoX, isoY)) continue
+        
+        const tileKey = `${isoX},${isoY}`
+        if (this.getTileHeight(isoX, isoY) > 0) {
+          this.createRaisedTile(isoX, isoY)
+        }
+        this.resetTileColor(isoX, isoY)
+        if (this.obstacles.has(tileKey)) {
+          this.createObstacleCube(isoX, isoY)
+        }
+        if (this.ramps.has(tileKey)) {
+          this.createRampBlock(isoX, isoY)
+        }
       }
     }
-    
-    // Fallback: return the rounded coordinates if no tile found
-    const fallbackX = Math.max(0, Math.min(this.extendedGridSize - 1, Math.round(isoGrid.x)))
-    const fallbackY = Math.max(0, Math.min(this.extendedGridSize - 1, Math.round(isoGrid.y)))
-    return { gridX: fallbackX, gridY: fallbackY }
   }
 
   /**
-   * Handle click event - convert screen coordinates to isometric grid coordinates
+   * Destroy the ground, raised tiles, obstacle cubes and ramp blocks of a chunk (the world data stays)
    */
-  handleClick(screenX: number, screenY: number) {
-    // Convert screen coordinates to world coordinates (relative to scene)
-    const worldX = screenX - this.x
-    const worldY = screenY - this.y
-    
-    // First, check if click is on a cube (check entire cube area, not just base)
-    // Sort cubes by Y position (depth) - higher Y = closer to camera = should be checked first
-    // This ensures that when cubes overlap, the visually front cube is selected
-    let clickedCube: Cube | null = null
-    let clickedCubeKey: string | null = null
-    
-    // Create array of cubes with their positions for sorting
-    const cubesWithPositions = Array.from(this.obstacleCubes.entries()).map(([cubeKey, cube]) => {
-      const pos = cube.getScreenPosition()
-      return { cubeKey, cube, y: pos.y }
-    })
-    
-    // Sort by Y position descending (higher Y = closer to camera = check first)
-    cubesWithPositions.sort((a, b) => b.y - a.y)
-    
-    // Check cubes in depth order (front to back)
-    for (const { cubeKey, cube } of cubesWithPositions) {
-      if (cube.isPointInside(worldX, worldY)) {
-        clickedCube = cube
-        clickedCubeKey = cubeKey
-        break
-      }
+  private unloadChunk(chunkX: number, chunkY: number) {
+    const bounds = this.chunks.getChunkBounds(chunkX, chunkY)
+    const isInChunk = (tileKey: string | null) => {
+      if (tileKey === null) return false
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      return isoX >= bounds.minX && isoX <= bounds.maxX && isoY >= bounds.minY && isoY <= bounds.maxY
     }
     
-    let clampedGridX: number
-    let clampedGridY: number
-    
-    // If a cube was clicked, use its position
-    if (clickedCube && clickedCubeKey) {
-      const parts = clickedCubeKey.split(',')
-      if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-        clampedGridX = Number(parts[0])
-        clampedGridY = Number(parts[1])
-      } else {
-        return
-      }
-    } else {
-      // Find the exact tile that contains the click point
-      const clickedTile = this.findTileAtScreenPosition(worldX, worldY)
-      if (!clickedTile) return
-      
-      clampedGridX = clickedTile.gridX
-      clampedGridY = clickedTile.gridY
+    // Drop highlights pointing at the chunk's display objects
+    if (isInChunk(this.selectedTileKey)) this.clearTargetHighlight()
+    if (isInChunk(this.selectedCubeKey)) this.deselectCube()
+    if (isInChunk(this.previewTileKey)) this.hidePathPreview()
+    if (this.unreachableFlash && isInChunk(`${this.unreachableFlash.isoX},${this.unreachableFlash.isoY}`)) {
+      this.endUnreachableFlash()
     }
+    this.highlights.clearArea(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY)
     
-    // Get current character position in isometric grid coordinates
-    const currentPos = this.character.getPosition()
-    const currentIso = IsoUtils.screenToIso(currentPos.x, currentPos.y, this.tileSize)
-    const startGridX = Math.max(0, Math.min(this.extendedGridSize - 1, Math.floor(currentIso.x)))
-    const startGridY = Math.max(0, Math.min(this.extendedGridSize - 1, Math.floor(currentIso.y)))
-    
-    // Rebuild grid with obstacles marked as blocked (1 = blocked, 0 = walkable)
-    const matrix = Array(this.extendedGridSize).fill(null).map(() => Array(this.extendedGridSize).fill(0))
+    // Shrink the navigation grid to the chunks still loaded (the chunk's tiles are blocked if it still covers them)
+    this.fitNavigationGrid()
+    this.updateNavigationArea(bounds)
     
-    // Mark obstacles as blocked in the pathfinding grid
-    for (const obstacleKey of this.obstacles) {
-      const parts = obstacleKey.split(',')
-      if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-        const isoX = Number(parts[0])
-        const isoY = Number(parts[1])
-        if (!isNaN(isoX) && !isNaN(isoY) && isoX >= 0 && isoX < this.extendedGridSize && isoY >= 0 && isoY < this.extendedGridSize) {
-          const row = matrix[isoY]
-          if (row) {
-            row[isoX] = 1 // Mark as blocked (note: matrix uses [row][col] = [y][x])
-          }
+    for (let isoY = bounds.minY; isoY <= bounds.maxY; isoY++) {
+      for (let isoX = bounds.minX; isoX <= bounds.maxX; isoX++) {
+        const tileKey = `${isoX},${isoY}`
+        for (const objects of [this.raisedTiles, this.obstacleCubes, this.rampBlocks] as Map<string, Container>[]) {
+          const object = objects.get(tileKey)
+          if (!object) continue
+          this.removeChild(object)
+          object.destroy()
+          objects.delete(tileKey)
         }
       }
     }
     
-    this.grid = new PF.Grid(matrix)
-    
-    // Check if clicked tile is an obstacle (cube)
-    const clickedTileKey = `${clampedGridX},${clampedGridY}`
-    const isCubeClicked = this.obstacles.has(clickedTileKey)
-    
-    // Deselect previous cube if any
-    if (this.selectedCube) {
-      this.selectedCube.setColor(this.originalCubeColor)
-      this.selectedCube = null
+    const chunkKey = `${chunkX},${chunkY}`
+    const ground = this.groundChunks.get(chunkKey)
+    if (ground) {
+      this.groundLayer.removeChild(ground)
+      ground.destroy()
+      this.groundChunks.delete(chunkKey)
+    }
+  }
+
+  /**
+   * Load the chunks around the camera view and the character, and unload far away ones
+   * @param maxLoads Most chunks loaded in this call (spreads loading over frames)
+   */
+  private updateChunks(maxLoads: number = Infinity) {
+    // Grid rectangle around the screen corners (with room for raised ground below the screen)
+    const corners = [[0, 0], [this.screenWidth, 0], [0, this.screenHeight], [this.screenWidth, this.screenHeight]]
+      .map(([screenX, screenY]) => {
+        const world = this.camera.screenToWorld(screenX!, screenY!)
+        return this.toGrid(world.x, world.y)
+      })
+    const margin = 2
+    const view: TileBounds = {
+      minX: Math.floor(Math.min(...corners.map(corner => corner.x))) - margin,
+      minY: Math.floor(Math.min(...corners.map(corner => corner.y))) - margin,
+      maxX: Math.ceil(Math.max(...corners.map(corner => corner.x))) + margin,
+      maxY: Math.ceil(Math.max(...corners.map(corner => corner.y))) + margin
     }
     
-    let targetGridX = clampedGridX
-    let targetGridY = clampedGridY
-    let characterTargetX = clampedGridX
-    let characterTargetY = clampedGridY
+    // Keep the character's surroundings loaded when the camera is panned away
+    const { isoX, isoY } = this.getCharacterTile()
+    const reach = Math.floor(this.chunks.getChunkSize() / 2)
+    const surroundings: TileBounds = { minX: isoX - reach, minY: isoY - reach, maxX: isoX + reach, maxY: isoY + reach }
     
-    // If a cube was clicked, select it and change its color
-    if (isCubeClicked) {
-      const clickedCube = this.obstacleCubes.get(clickedTileKey)
-      if (clickedCube) {
-        this.selectedCube = clickedCube
-        // Lighten the brown color (0x8B4513 -> lighter brown)
-        const lighterBrown = this.lightenCubeColor(this.originalCubeColor, 0.3)
-        clickedCube.setColor(lighterBrown)
-      }
-      
-      // The yellow target tile should be placed UNDER the cube (on the cube's tile)
-      // So targetGridX and targetGridY remain as clampedGridX and clampedGridY
-      // But we still need to find an adjacent tile for the character to move to
-      
-      // The 4 adjacent positions around the cube
-      const adjacentPositions = [
-        { x: clampedGridX + 1, y: clampedGridY }, // East
-        { x: clampedGridX - 1, y: clampedGridY }, // West
-        { x: clampedGridX, y: clampedGridY + 1 }, // South
-        { x: clampedGridX, y: clampedGridY - 1 }  // North
+    this.chunks.update([view, surroundings], maxLoads)
+  }
+
+  /**
+   * Hide the ground chunks outside the screen and rebuild the visible ones that changed
+   */
+  private updateGround() {
+    const topLeft = this.camera.screenToWorld(0, 0)
+    const bottomRight = this.camera.screenToWorld(this.screenWidth, this.screenHeight)
+    
+    for (const [chunkKey, ground] of this.groundChunks) {
+      const [chunkX, chunkY] = chunkKey.split(',').map(Number) as [number, number]
+      const bounds = this.chunks.getChunkBounds(chunkX, chunkY)
+      const corners = [
+        this.toWorld(bounds.minX, bounds.minY),
+        this.toWorld(bounds.maxX, bounds.minY),
+        this.toWorld(bounds.minX, bounds.maxY),
+        this.toWorld(bounds.maxX, bounds.maxY)
       ]
       
-      // Filter valid adjacent tiles (within bounds and not obstacles)
-      const validAdjacentTiles = adjacentPositions.filter(pos => {
-        if (pos.x < 0 || pos.x >= this.extendedGridSize || pos.y < 0 || pos.y >= this.extendedGridSize) {
-          return false
+      // Corner tile centers, widened by half a tile
+      ground.visible =
+        Math.max(...corners.map(corner => corner.x)) + this.tileSize >= topLeft.x &&
+        Math.min(...corners.map(corner => corner.x)) - this.tileSize <= bottomRight.x &&
+        Math.max(...corners.map(corner => corner.y)) + this.tileSize / 2 >= topLeft.y &&
+        Math.min(...corners.map(corner => corner.y)) - this.tileSize / 2 <= bottomRight.y
+      if (ground.visible) {
+        ground.update()
+      }
+    }
+  }
+
+  /**
+   * Fit the navigation grid to the loaded chunks
+   * Tiles it already covered are kept, tiles it gains are blocked until their chunk is
+   * written by updateNavigationArea().
+   */
+  private fitNavigationGrid() {
+    const bounds = this.chunks.getLoadedBounds()
+    if (!bounds) {
+      this.navigation.reset(0, 0)
+      return
+    }
+    this.navigation.setBounds(bounds.minX, bounds.minY, bounds.maxX - bounds.minX + 1, bounds.maxY - bounds.minY + 1)
+  }
+
+  /**
+   * Block the obstacles and missing tiles of a rectangle (a chunk) in the navigation grid
+   */
+  private updateNavigationArea(bounds: TileBounds) {
+    for (let isoY = bounds.minY; isoY <= bounds.maxY; isoY++) {
+      for (let isoX = bounds.minX; isoX <= bounds.maxX; isoX++) {
+        this.updateNavigationTile(isoX, isoY)
+      }
+    }
+  }
+
+  /**
+   * Block a tile in the navigation grid if it holds an obstacle or isn't loaded
+   */
+  private updateNavigationTile(isoX: number, isoY: number) {
+    const tileKey = `${isoX},${isoY}`
+    this.navigation.setBlocked(isoX, isoY, !this.isTileLoaded(isoX, isoY) || this.obstacles.has(tileKey))
+  }
+
+  /**
+   * Make sure the center of a generated chunk reaches most of the chunk
+   * Isolated walkable pockets are connected to the center area (largest pockets first)
+   * until it reaches the minimum share of walkable tiles, by clearing the fewest
+   * obstacles. The pockets left after that, or that can't be connected, are filled
+   * with obstacles. (Pockets one level apart never need a ramp: single steps connect them.)
+   * Chunks are connected on their own: paths between chunks go through the crossings the
+   * generator leaves on every edge (see RandomMapGenerator.generateChunk()).
+   */
+  private connectChunk(chunkX: number, chunkY: number, center: { isoX: number; isoY: number }) {
+    const { isoX: centerX, isoY: centerY } = center
+    const size = this.chunks.getChunkSize()
+    const bounds = this.chunks.getChunkBounds(chunkX, chunkY)
+    const grid = new NavigationGrid(0, 0, this)
+    grid.reset(size, size, bounds.minX, bounds.minY)
+    for (let isoY = bounds.minY; isoY <= bounds.maxY; isoY++) {
+      for (let isoX = bounds.minX; isoX <= bounds.maxX; isoX++) {
+        if (this.obstacles.has(`${isoX},${isoY}`)) {
+          grid.setBlocked(isoX, isoY)
         }
-        const tileKey = `${pos.x},${pos.y}`
-        return !this.obstacles.has(tileKey)
-      })
-      
-      if (validAdjacentTiles.length === 0) {
-        return // No valid position to stand in front of the cube
       }
+    }
+    if (!grid.isWalkable(centerX, centerY)) return
+    
+    // Only obstacle tiles can be cleared
+    const canCarve = (isoX: number, isoY: number) => this.obstacles.has(`${isoX},${isoY}`)
+    
+    while (true) {
+      const reachable = floodFill(grid, centerX, centerY)
+      const pockets = findPockets(grid, reachable)
+      if (pockets.length === 0) return
       
-      // Find the closest adjacent tile to the character's current position
-      let closestTile = validAdjacentTiles[0]!
-      let minDistance = Infinity
+      let walkableCount = reachable.size
+      for (const pocket of pockets) {
+        walkableCount += pocket.size
+      }
       
-      for (const tile of validAdjacentTiles) {
-        const dx = tile.x - startGridX
-        const dy = tile.y - startGridY
-        const distance = Math.sqrt(dx * dx + dy * dy)
-        
-        if (distance < minDistance) {
-          minDistance = distance
-          closestTile = tile
+      if (reachable.size >= walkableCount * this.minReachableRatio) {
+        for (const pocket of pockets) {
+          this.fillPocket(grid, pocket)
         }
+        return
       }
       
-      // Character moves to adjacent tile, but target highlight is on the cube
-      targetGridX = clampedGridX
-      targetGridY = clampedGridY
+      const largest = pockets[0]!
+      const carved = findCarvePath(grid, largest, reachable, canCarve)
+      if (carved) {
+        for (const tile of carved) {
+          this.clearObstacle(grid, tile.x, tile.y)
+        }
+      } else {
+        this.fillPocket(grid, largest)
+      }
+    }
+  }
+
+  /**
+   * Turn the tiles of an isolated pocket (indices in the chunk's navigation grid) into obstacles
+   */
+  private fillPocket(grid: NavigationGrid, pocket: Set<number>) {
+    for (const index of pocket) {
+      const { x: isoX, y: isoY } = grid.getTile(index)
+      const tileKey = `${isoX},${isoY}`
+      this.obstacles.add(tileKey)
+      this.ramps.delete(tileKey) // Obstacles replace ramps
+      grid.setBlocked(isoX, isoY)
+    }
+  }
+
+  /**
+   * Remove an obstacle from the world data before its cube is created
+   */
+  private clearObstacle(grid: NavigationGrid, isoX: number, isoY: number) {
+    const tileKey = `${isoX},${isoY}`
+    this.obstacles.delete(tileKey)
+    this.obstacleColors.delete(tileKey)
+    this.obstacleLevels.delete(tileKey)
+    grid.setBlocked(isoX, isoY, false)
+  }
+
+  /**
+   * Create the 3D cube for a single obstacle
+   */
+  private createObstacleCube(isoX: number, isoY: number) {
+    const obstacleKey = `${isoX},${isoY}`
+    const obstacleColor = this.obstacleColors.get(obstacleKey) ?? this.defaultCubeColor
+    const levels = this.obstacleLevels.get(obstacleKey) ?? 1
+    // Cubes sit on top of the (possibly raised) ground of their tile
+    const obstacleCube = new Cube(isoX, isoY, this.tileSize, obstacleColor, this.getTileHeight(isoX, isoY), levels)
+    obstacleCube.setOrientation(this.viewTurns)
+    this.obstacleCubes.set(obstacleKey, obstacleCube)
+    
+    // Initial zIndex will be set by updateZOrdering() based on Y position
+    // For now, set a base zIndex based on isometric position
+    obstacleCube.zIndex = this.getDepthZIndex(isoX, isoY)
+    
+    this.addChild(obstacleCube)
+  }
+
+  /**
+   * Create the block of a single ramp or stairs
+   */
+  private createRampBlock(isoX: number, isoY: number) {
+    const tileKey = `${isoX},${isoY}`
+    const ramp = this.ramps.get(tileKey)
+    if (!ramp) return
+    
+    const block = new Ramp(isoX, isoY, this.tileSize, ramp.direction, ramp.kind, undefined, this.getTileHeight(isoX, isoY))
+    block.setOrientation(this.viewTurns)
+    // Ramps are static: sort them just behind anything standing on their tile
+    block.zIndex = this.getDepthZIndex(isoX, isoY) - 0.5
+    this.rampBlocks.set(tileKey, block)
+    this.addChild(block)
+  }
+  
+  /**
+   * Reset a tile to its default color (grey or dark grey for obstacles)
+   * Raised tiles are slightly lighter per level so platforms stand out
+   */
+  private resetTileColor(gridX: number, gridY: number) {
+    if (!this.isTileLoaded(gridX, gridY)) return
+    
+    const tileKey = `${gridX},${gridY}`
+    const isObstacle = this.obstacles.has(tileKey)
+    // Dark grey for obstacles, terrain color for walkable tiles
+    const baseColor = isObstacle ? 0x404040 : TERRAIN_TYPES[this.getTerrain(gridX, gridY)].color
+    const tileColor = this.lightenCubeColor(baseColor, 0.06 * this.getTileHeight(gridX, gridY))
+    const borderColor = isObstacle ? 0x505050 : this.lightenCubeColor(baseColor, 0.15)
+    
+    // Raised tiles have their own graphics, flat tiles are drawn by their ground chunk
+    const raisedTile = this.raisedTiles.get(tileKey)
+    if (raisedTile) {
+      this.drawTile(raisedTile, gridX, gridY, tileColor, borderColor)
+      return
+    }
+    const { chunkX, chunkY } = this.chunks.getChunkAt(gridX, gridY)
+    this.groundChunks.get(`${chunkX},${chunkY}`)?.setTile(gridX, gridY, tileColor, borderColor)
+  }
+
+  /**
+   * Remove the highlight of the target tile and its adjacent tiles
+   */
+  private clearTargetHighlight() {
+    this.highlights.clear('selection')
+    this.highlights.clear('adjacency')
+    this.selectedTileKey = null
+  }
+
+  /**
+   * Highlight a target tile (selection layer) and its free adjacent tiles (adjacency layer)
+   */
+  private highlightTargetTile(gridX: number, gridY: number) {
+    const tileKey = `${gridX},${gridY}`
+    this.clearTargetHighlight()
+    
+    // Get the new target tile
+    if (this.isTileLoaded(gridX, gridY)) {
+      this.highlights.set('selection', gridX, gridY)
+      this.selectedTileKey = tileKey
+    }
+    
+    // Highlight adjacent tiles in green (if not obstacles)
+    const adjacentPositions = [
+      { x: gridX + 1, y: gridY }, // East
+      { x: gridX - 1, y: gridY }, // West
+      { x: gridX, y: gridY + 1 }, // South
+      { x: gridX, y: gridY - 1 }  // North
+    ]
+    
+    for (const pos of adjacentPositions) {
+      // Skip tiles outside the grid and obstacles
+      if (!this.navigation.isWalkable(pos.x, pos.y)) {
+        continue
+      }
       
-      // Store the adjacent tile for character movement
-      characterTargetX = closestTile.x
-      characterTargetY = closestTile.y
+      this.highlights.set('adjacency', pos.x, pos.y)
+    }
+  }
+
+  /**
+   * Select the cube at the given tile key and lighten its color
+   */
+  private selectCube(tileKey: string) {
+    const cube = this.obstacleCubes.get(tileKey)
+    if (!cube) return
+    
+    this.selectedCube = cube
+    this.selectedCubeKey = tileKey
+    this.originalCubeColor = this.obstacleColors.get(tileKey) ?? this.defaultCubeColor
+    // Lighten the cube color (e.g. brown 0x8B4513 -> lighter brown)
+    const lighterColor = this.lightenCubeColor(this.originalCubeColor, 0.3)
+    cube.setColor(lighterColor)
+  }
+
+  /**
+   * Restore the selected cube's original color and clear the selection
+   */
+  private deselectCube() {
+    if (this.selectedCube) {
+      this.selectedCube.setColor(this.originalCubeColor)
+    }
+    this.selectedCube = null
+    this.selectedCubeKey = null
+  }
+
+  private createCharacter() {
+    const appearance = this.characterAppearance
+    if (appearance.type === 'sprite') {
+      this.character = new SpriteCharacter(appearance.sheet)
     } else {
-      // Normal tile clicked, character moves to adjacent tile
-      characterTargetX = targetGridX
-      characterTargetY = targetGridY
+      const character = new Character3D(this.characterAtlas)
+      if (appearance.modelUrl) {
+        // Drawn as the procedural character until the model is loaded
+        character.loadGLTFModel(appearance.modelUrl)
+      }
+      this.character = character
     }
+    // Set initial scale based on tile size
+    this.character.updateScale(this.tileSize)
+    this.character.setViewRotation(this.viewTurns)
+    // Start at the map's spawn point (in isometric grid coordinates)
+    const screenPos = this.toWorld(this.spawn.isoX, this.spawn.isoY)
     
-    // Highlight the target tile in yellow (under the cube if cube clicked, otherwise on the clicked tile)
-    this.highlightTargetTile(targetGridX, targetGridY)
-    
-    // If a cube was clicked, character should go directly to the adjacent tile (green tile)
-    // No need to find another adjacent tile
-    if (isCubeClicked) {
-      // Character goes directly to the adjacent tile we found
-      const path = this.pathfinder.findPath(startGridX, startGridY, characterTargetX, characterTargetY, this.grid)
-      if (path.length === 0) {
-        return // No path found
+    // Set character position in screen coordinates (world space), standing on the spawn tile
+    this.character.setPosition(screenPos.x, screenPos.y, this.getSurfaceElevation(this.spawn.isoX, this.spawn.isoY))
+    
+    // Set initial zIndex based on Y position (will be updated dynamically)
+    this.character.zIndex = Math.floor(screenPos.y * 10)
+    
+    this.addChild(this.character)
+  }
+
+  /**
+   * Check if a point is inside a diamond-shaped isometric tile
+   */
+  private isPointInDiamond(px: number, py: number, centerX: number, centerY: number, halfWidth: number, halfHeight: number): boolean {
+    // Check if point is inside diamond using the diamond's four edges
+    // Diamond edges: top-right, bottom-right, bottom-left, top-left
+    const dx = Math.abs(px - centerX)
+    const dy = Math.abs(py - centerY)
+    
+    // Check if point is within the diamond bounds
+    // The diamond is defined by: |x|/halfWidth + |y|/halfHeight <= 1
+    return (dx / halfWidth + dy / halfHeight) <= 1
+  }
+
+  /**
+   * Find the tile that contains the given screen coordinates
+   */
+  private findTileAtScreenPosition(worldX: number, worldY: number): { gridX: number; gridY: number } | null {
+    // Raised tiles are drawn above the flat ground and hide what is behind them,
+    // so check them first (top face and sides), front-most first
+    const raisedTile = this.findRaisedTileAtScreenPosition(worldX, worldY)
+    if (raisedTile) return raisedTile
+    
+    // Convert screen coordinates to approximate isometric grid coordinates
+    const isoGrid = this.toGrid(worldX, worldY)
+    
+    // Check the tile at the rounded coordinates and its neighbors
+    const candidates = [
+      { x: Math.floor(isoGrid.x), y: Math.floor(isoGrid.y) },
+      { x: Math.ceil(isoGrid.x), y: Math.floor(isoGrid.y) },
+      { x: Math.floor(isoGrid.x), y: Math.ceil(isoGrid.y) },
+      { x: Math.ceil(isoGrid.x), y: Math.ceil(isoGrid.y) },
+    ]
+    
+    const halfWidth = (this.tileSize / 2) * 2.0 // scaled
+    const halfHeight = (this.tileSize / 4) * 2.0 // scaled
+    
+    // Check each candidate tile to see if the point is inside
+    for (const candidate of candidates) {
+      const gridX = candidate.x
+      const gridY = candidate.y
+      
+      // Only loaded tiles can be picked
+      if (!this.isTileLoaded(gridX, gridY)) {
+        continue
       }
       
-      const pathToFollow = path.length > 1 ? path.slice(1) : path
-      const screenPath = pathToFollow
-        .map((point) => {
-          if (point && point.length >= 2 && point[0] !== undefined && point[1] !== undefined) {
-            const isoX = point[0]
-            const isoY = point[1]
-            const screenPos = IsoUtils.isoToScreen(isoX, isoY, this.tileSize)
-            return { x: screenPos.x, y: screenPos.y }
-          }
-          return null
-        })
-        .filter((point): point is { x: number; y: number } => point !== null)
+      // Get tile center position
+      const screenPos = this.toWorld(gridX, gridY)
       
-      if (screenPath.length === 0) {
-        const targetScreenPos = IsoUtils.isoToScreen(characterTargetX, characterTargetY, this.tileSize)
-        this.character.moveTo(targetScreenPos.x, targetScreenPos.y)
-        return
+      // Check if point is inside this tile's diamond
+      if (this.isPointInDiamond(worldX, worldY, screenPos.x, screenPos.y, halfWidth, halfHeight)) {
+        return { gridX, gridY }
       }
+    }
+    
+    // Fallback: return the rounded coordinates if that tile is loaded
+    const fallbackX = Math.round(isoGrid.x)
+    const fallbackY = Math.round(isoGrid.y)
+    return this.isTileLoaded(fallbackX, fallbackY) ? { gridX: fallbackX, gridY: fallbackY } : null
+  }
+
+  /**
+   * Find the front-most raised tile or ramp whose column (top face and sides) contains the point
+   */
+  private findRaisedTileAtScreenPosition(worldX: number, worldY: number): { gridX: number; gridY: number } | null {
+    const halfWidth = (this.tileSize / 2) * 2.0 // scaled
+    const halfHeight = (this.tileSize / 4) * 2.0 // scaled
+    const levelHeight = IsoUtils.getLevelHeight(this.tileSize)
+    
+    let result: { gridX: number; gridY: number } | null = null
+    let resultDepth = -Infinity
+    
+    const checkColumn = (tileKey: string, height: number) => {
+      const [gridX, gridY] = tileKey.split(',').map(Number) as [number, number]
+      const groundPos = this.toWorld(gridX, gridY)
+      
+      // The column spans from the ground diamond up to the top diamond
+      const dx = Math.abs(worldX - groundPos.x)
+      if (dx > halfWidth) return
+      const edgeOffset = halfHeight * (1 - dx / halfWidth)
+      const topY = groundPos.y - height * levelHeight - edgeOffset
+      const bottomY = groundPos.y + edgeOffset
+      if (worldY < topY || worldY > bottomY) return
       
-      // Face towards the cube
-      const targetScreenPos = IsoUtils.isoToScreen(targetGridX, targetGridY, this.tileSize)
-      this.character.moveAlongPath(screenPath, undefined, targetScreenPos)
+      // Columns closer to the camera are drawn on top
+      if (groundPos.y > resultDepth) {
+        resultDepth = groundPos.y
+        result = { gridX, gridY }
+      }
+    }
+    
+    // Only loaded tiles are drawn, so only they can be picked
+    for (const tileKey of this.raisedTiles.keys()) {
+      checkColumn(tileKey, this.tileHeights.get(tileKey) ?? 0)
+    }
+    // Ramps reach one level above their tile (approximated by a full column)
+    for (const tileKey of this.rampBlocks.keys()) {
+      checkColumn(tileKey, (this.tileHeights.get(tileKey) ?? 0) + 1)
+    }
+    
+    return result
+  }
+
+  /**
+   * Find the tile under a point, checking cubes first so that clicking
+   * anywhere on a cube (not just its base) picks the cube's tile
+   */
+  private pickTileAtScreenPosition(worldX: number, worldY: number): { gridX: number; gridY: number } | null {
+    // First, check if click is on a cube (check entire cube area, not just base)
+    // Sort cubes by Y position (depth) - higher Y = closer to camera = should be checked first
+    // This ensures that when cubes overlap, the visually front cube is selected
+    let clickedCube: Cube | null = null
+    let clickedCubeKey: string | null = null
+    
+    // Create array of cubes with their positions for sorting (by footprint, ignoring elevation)
+    const cubesWithPositions = Array.from(this.obstacleCubes.entries()).map(([cubeKey, cube]) => {
+      return { cubeKey, cube, y: cube.getDepthY() }
+    })
+    
+    // Sort by Y position descending (higher Y = closer to camera = check first)
+    cubesWithPositions.sort((a, b) => b.y - a.y)
+    
+    // Check cubes in depth order (front to back)
+    for (const { cubeKey, cube } of cubesWithPositions) {
+      if (cube.isPointInside(worldX, worldY)) {
+        clickedCube = cube
+        clickedCubeKey = cubeKey
+        break
+      }
+    }
+    
+    // If a cube was clicked, use its position
+    if (clickedCube && clickedCubeKey) {
+      const parts = clickedCubeKey.split(',')
+      if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
+        return { gridX: Number(parts[0]), gridY: Number(parts[1]) }
+      }
+      return null
+    }
+    
+    // Find the exact tile that contains the click point
+    return this.findTileAtScreenPosition(worldX, worldY)
+  }
+
+  /**
+   * Handle click event - convert screen coordinates to isometric grid coordinates
+   */
+  handleClick(screenX: number, screenY: number) {
+    // Convert screen coordinates to world coordinates (relative to scene)
+    const world = this.camera.screenToWorld(screenX, screenY)
+    
+    const pickedTile = this.pickTileAtScreenPosition(world.x, world.y)
+    if (!pickedTile) return
+    
+    // In editor mode, clicks edit the map instead of moving the character
+    if (this.editor.isEnabled()) {
+      this.editor.handleTileClick(pickedTile.gridX, pickedTile.gridY)
       return
     }
     
-    // Normal tile clicked: find the closest adjacent tile (green tile) to the character's starting position
-    // The 4 adjacent positions around the target tile
+    this.moveToTile(pickedTile.gridX, pickedTile.gridY)
+  }
+
+  /**
+   * Send the character to a tile (next to it for a cube), as for a click on the tile
+   */
+  private moveToTile(targetX: number, targetY: number) {
+    // The move is confirmed, so its preview is no longer needed
+    this.hidePathPreview()
+    
+    const plan = this.planMove(targetX, targetY)
+    
+    // Deselect previous cube if any, and select the clicked one (changes its color)
+    this.deselectCube()
+    if (plan.isCube) {
+      this.selectCube(`${plan.targetX},${plan.targetY}`)
+    }
+    
+    if (plan.path.length === 0) {
+      // Nothing to move to: make it obvious instead of silently ignoring the click
+      this.clearTargetHighlight()
+      this.flashUnreachable(plan.targetX, plan.targetY)
+      for (const listener of this.noRouteListeners) {
+        listener(plan.targetX, plan.targetY)
+      }
+      return
+    }
+    
+    // Highlight the target tile in yellow (under the cube if cube clicked, otherwise on the clicked tile)
+    this.highlightTargetTile(plan.targetX, plan.targetY)
+    
+    // Convert isometric grid coordinates to screen coordinates for the path
+    const screenPath = this.toScreenPath(plan.path)
+    
+    // Move character along the path (using screen coordinates)
+    // Face the target tile (or the clicked cube) at the end of the move
+    const targetScreenPos = this.toWorld(plan.targetX, plan.targetY)
+    this.character.moveAlongPath(screenPath, undefined, targetScreenPos)
+  }
+
+  /**
+   * Handle a tap on a touch screen
+   * The first tap on a tile previews the path, a second tap on the same tile confirms the move.
+   */
+  handleTap(screenX: number, screenY: number) {
+    const world = this.camera.screenToWorld(screenX, screenY)
+    const pickedTile = this.pickTileAtScreenPosition(world.x, world.y)
+    if (!pickedTile) return
+    
+    const tileKey = `${pickedTile.gridX},${pickedTile.gridY}`
+    if (this.editor.isEnabled() || this.previewTileKey === tileKey) {
+      this.handleClick(screenX, screenY)
+      return
+    }
+    this.showPathPreview(pickedTile.gridX, pickedTile.gridY)
+  }
+
+  /**
+   * Work out where the character would go for a click on a tile, without moving it
+   * A clicked cube is approached from the closest adjacent tile at its ground level. A
+   * clicked tile is approached from its closest adjacent tile connected to its surface,
+   * or reached itself when no adjacent tile is available. When neither can be reached,
+   * the character goes to the reachable tile closest to the target (by path distance) instead.
+   */
+  private planMove(targetX: number, targetY: number): MovePlan {
+    // Get current character position in isometric grid coordinates
+    const currentPos = this.character.getPosition()
+    const currentIso = this.toGrid(currentPos.x, currentPos.y)
+    const startGridX = Math.round(currentIso.x)
+    const startGridY = Math.round(currentIso.y)
+    
+    // Check if clicked tile is an obstacle (cube)
+    const isCube = this.obstacles.has(`${targetX},${targetY}`)
+    
+    // The 4 adjacent positions around the target
     const adjacentPositions = [
-      { x: characterTargetX + 1, y: characterTargetY }, // East
-      { x: characterTargetX - 1, y: characterTargetY }, // West
-      { x: characterTargetX, y: characterTargetY + 1 }, // South
-      { x: characterTargetX, y: characterTargetY - 1 }  // North
+      { x: targetX + 1, y: targetY }, // East
+      { x: targetX - 1, y: targetY }, // West
+      { x: targetX, y: targetY + 1 }, // South
+      { x: targetX, y: targetY - 1 }  // North
     ]
     
-    // Filter valid adjacent tiles (within bounds and not obstacles)
-    const validAdjacentTiles = adjacentPositions.filter(pos => {
-      if (pos.x < 0 || pos.x >= this.extendedGridSize || pos.y < 0 || pos.y >= this.extendedGridSize) {
-        return false
-      }
-      const tileKey = `${pos.x},${pos.y}`
-      return !this.obstacles.has(tileKey)
-    })
+    // Filter valid adjacent tiles (within bounds, not obstacles, and connected to the target's surface)
+    const validAdjacentTiles = adjacentPositions.filter(pos =>
+      this.navigation.isWalkable(pos.x, pos.y) && this.navigation.canStep(pos.x, pos.y, targetX, targetY)
+    )
     
-    // If no valid adjacent tiles, use target tile itself
-    if (validAdjacentTiles.length === 0) {
-      // Fallback to target tile if no adjacent tiles are available
-      const path = this.pathfinder.findPath(startGridX, startGridY, characterTargetX, characterTargetY, this.grid)
-      if (path.length === 0) {
-        return // No path found
-      }
-      
-      const pathToFollow = path.length > 1 ? path.slice(1) : path
-      const screenPath = pathToFollow
-        .map((point) => {
-          if (point && point.length >= 2 && point[0] !== undefined && point[1] !== undefined) {
-            const isoX = point[0]
-            const isoY = point[1]
-            const screenPos = IsoUtils.isoToScreen(isoX, isoY, this.tileSize)
-            return { x: screenPos.x, y: screenPos.y }
-          }
-          return null
-        })
-        .filter((point): point is { x: number; y: number } => point !== null)
+    let path: number[][] = []
+    if (validAdjacentTiles.length > 0) {
+      // Find the closest adjacent tile to the character's current position
+      let closestTile = validAdjacentTiles[0]!
+      let minDistance = Infinity
       
-      if (screenPath.length === 0) {
-        const targetScreenPos = IsoUtils.isoToScreen(characterTargetX, characterTargetY, this.tileSize)
-        this.character.moveTo(targetScreenPos.x, targetScreenPos.y)
-        return
+      for (const tile of validAdjacentTiles) {
+        const dx = tile.x - startGridX
+        const dy = tile.y - startGridY
+        const distance = Math.sqrt(dx * dx + dy * dy)
+        
+        if (distance < minDistance) {
+          minDistance = distance
+          closestTile = tile
+        }
       }
       
-      const targetScreenPos = IsoUtils.isoToScreen(characterTargetX, characterTargetY, this.tileSize)
-      this.character.moveAlongPath(screenPath, undefined, targetScreenPos)
+      // Calculate path to the closest adjacent tile
+      path = this.pathfinder.findPath(startGridX, startGridY, closestTile.x, closestTile.y, this.navigation)
+    } else if (!isCube) {
+      // No adjacent tile available: fall back to the target tile itself
+      path = this.pathfinder.findPath(startGridX, startGridY, targetX, targetY, this.navigation)
+    }
+    
+    if (path.length > 0) {
+      return { targetX, targetY, isCube, path, reachesTarget: true }
+    }
+    
+    // The target can't be reached: get as close to it as possible instead
+    // (staying on the current tile doesn't count as a move)
+    const fallbackPath = this.pathfinder.findPathToClosest(startGridX, startGridY, targetX, targetY, this.navigation)
+    return { targetX, targetY, isCube, path: fallbackPath.length > 1 ? fallbackPath : [], reachesTarget: false }
+  }
+
+  /**
+   * Flash a target red (the tile, or the cube standing on it) when nothing can be reached
+   */
+  private flashUnreachable(isoX: number, isoY: number) {
+    this.endUnreachableFlash()
+    const tileKey = `${isoX},${isoY}`
+    if (this.isTileLoaded(isoX, isoY)) {
+      this.highlights.set('danger', isoX, isoY)
+    }
+    this.obstacleCubes.get(tileKey)?.setColor(IsoScene.UNREACHABLE_COLOR)
+    this.unreachableFlash = { isoX, isoY, remaining: IsoScene.UNREACHABLE_FLASH_DURATION }
+  }
+
+  /**
+   * Restore the colors of a flashed target
+   */
+  private endUnreachableFlash() {
+    if (!this.unreachableFlash) return
+    const { isoX, isoY } = this.unreachableFlash
+    const tileKey = `${isoX},${isoY}`
+    this.unreachableFlash = null
+    
+    this.highlights.clear('danger')
+    const cube = this.obstacleCubes.get(tileKey)
+    if (cube) {
+      const color = this.obstacleColors.get(tileKey) ?? this.defaultCubeColor
+      cube.setColor(this.selectedCubeKey === tileKey ? this.lightenCubeColor(color, 0.3) : color)
+    }
+  }
+
+  /**
+   * Subscribe to clicks on targets the character can't get any closer to
+   * Returns a function that removes the listener
+   */
+  onNoRoute(listener: (isoX: number, isoY: number) => void): () => void {
+    this.noRouteListeners.add(listener)
+    return () => this.noRouteListeners.delete(listener)
+  }
+
+  /**
+   * Preview the path the character would take for a click on a tile
+   */
+  private showPathPreview(targetX: number, targetY: number) {
+    this.previewTileKey = `${targetX},${targetY}`
+    if (!this.pathPreview.parent) {
+      this.addChild(this.pathPreview)
+    }
+    
+    const plan = this.planMove(targetX, targetY)
+    this.highlights.setTiles('hover', [{ isoX: targetX, isoY: targetY }])
+    this.highlights.setTiles('path', plan.path.slice(1).map(([isoX, isoY]) => ({ isoX: isoX!, isoY: isoY! })))
+    if (plan.path.length === 0) {
+      const targetScreenPos = this.toWorld(targetX, targetY)
+      this.pathPreview.showUnreachable(targetScreenPos.x, targetScreenPos.y - this.getSurfaceElevation(targetX, targetY))
       return
     }
     
-    // Calculate distance from start position to each valid adjacent tile
-    // Find the closest one
-    let closestTile = validAdjacentTiles[0]!
-    let minDistance = Infinity
+    // Start at the character and follow the waypoints it would walk through
+    const characterPos = this.character.getPosition()
+    const points = [
+      { x: characterPos.x, y: characterPos.y - this.character.getElevation() },
+      ...this.toScreenPath(plan.path).map(waypoint => ({ x: waypoint.x, y: waypoint.y - waypoint.z }))
+    ]
+    this.pathPreview.showPath(points, plan.path.length - 1, !plan.reachesTarget)
+  }
+
+  /**
+   * Remove the path preview (the next hover or tap computes a new one)
+   */
+  hidePathPreview() {
+    this.previewTileKey = null
+    this.pathPreview.hide()
+    this.highlights.clear('hover')
+    this.highlights.clear('path')
+  }
+
+  /**
+   * Convert a pathfinding path (grid coordinates, starting at the character's tile) to screen
+   * waypoints with the surface elevation and the terrain speed of each tile
+   * The starting tile is skipped unless it is the only one. Steps onto or off a ramp get an
+   * extra waypoint at the shared tile edge, so the character climbs along the slope; single
+   * steps between flat tiles get two (below and above the step), so the character walks up
+   * to the edge and climbs there instead of going through the side of the higher tile.
+   */
+  private toScreenPath(path: number[][]): Array<{ x: number; y: number; z: number; speed: number }> {
+    const levelHeight = IsoUtils.getLevelHeight(this.tileSize)
+    const points = path.filter((point): point is [number, number] =>
+      point !== undefined && point.length >= 2 && point[0] !== undefined && point[1] !== undefined
+    )
+    const toWaypoint = (isoX: number, isoY: number, z: number, speed: number) => {
+      const screenPos = this.toWorld(isoX, isoY)
+      return { x: screenPos.x, y: screenPos.y, z, speed }
+    }
+    
+    if (points.length <= 1) {
+      return points.map(([isoX, isoY]) =>
+        toWaypoint(isoX, isoY, this.getSurfaceElevation(isoX, isoY), this.getSpeedFactor(isoX, isoY))
+      )
+    }
     
-    for (const tile of validAdjacentTiles) {
-      // Calculate Manhattan distance (or Euclidean, both work for grid)
-      const dx = tile.x - startGridX
-      const dy = tile.y - startGridY
-      const distance = Math.sqrt(dx * dx + dy * dy)
-      
-      if (distance < minDistance) {
-        minDistance = distance
-        closestTile = tile
+    const screenPath: Array<{ x: number; y: number; z: number; speed: number }> = []
+    for (let i = 1; i < points.length; i++) {
+      const [fromX, fromY] = points[i - 1]!
+      const [toX, toY] = points[i]!
+      if (this.ramps.has(`${fromX},${fromY}`) || this.ramps.has(`${toX},${toY}`)) {
+        const edgeHeight = this.navigation.getEdgeHeight(fromX, fromY, toX - fromX, toY - fromY)
+        if (edgeHeight !== null) {
+          // The way to the edge is still on the previous tile
+          const speed = this.getSpeedFactor(fromX, fromY)
+          screenPath.push(toWaypoint((fromX + toX) / 2, (fromY + toY) / 2, edgeHeight * levelHeight, speed))
+        }
+      } else {
+        const fromHeight = this.getTileHeight(fromX, fromY)
+        const toHeight = this.getTileHeight(toX, toY)
+        if (fromHeight !== toHeight) {
+          const speed = this.getSpeedFactor(fromX, fromY)
+          screenPath.push(toWaypoint((fromX + toX) / 2, (fromY + toY) / 2, fromHeight * levelHeight, speed))
+          screenPath.push(toWaypoint((fromX + toX) / 2, (fromY + toY) / 2, toHeight * levelHeight, speed))
+        }
       }
+      screenPath.push(toWaypoint(toX, toY, this.getSurfaceElevation(toX, toY), this.getSpeedFactor(toX, toY)))
     }
+    return screenPath
+  }
+
+  /**
+   * Update the character's drawn position and move the camera
+   * @param deltaTime Time elapsed since last frame; without it (world rebuilt or resized)
+   *                  the camera jumps back onto the character
+   */
+  private updateScenePosition(deltaTime?: number) {
+    const characterPos = this.character.getPosition()
     
-    // Calculate path to the closest adjacent tile
-    const stopTileX = closestTile.x
-    const stopTileY = closestTile.y
-    const finalPath = this.pathfinder.findPath(startGridX, startGridY, stopTileX, stopTileY, this.grid)
+    // Character's position in the scene is its world position (screen coordinates),
+    // raised by the elevation of the surface it stands on
+    this.character.x = characterPos.x
+    this.character.y = characterPos.y - this.character.getElevation()
     
-    // Ensure we have a valid path
-    if (finalPath.length === 0) {
-      return // No valid path found
+    // The camera follows the character (unless panned away), which moves and scales the whole scene
+    this.camera.setTarget(characterPos.x, characterPos.y)
+    if (deltaTime === undefined) {
+      this.updateCameraBounds()
+      this.camera.snapToTarget()
+    } else {
+      this.camera.update(deltaTime)
     }
-    
-    // Skip the first point if it's the current position
-    const pathToFollow = finalPath.length > 1 ? finalPath.slice(1) : finalPath
-    
-    // Debug: ensure pathToFollow is not empty
-    if (pathToFollow.length === 0) {
-      // If path only has one point (current position), use the target directly
-      const targetScreenPos = IsoUtils.isoToScreen(targetGridX, targetGridY, this.tileSize)
-      this.character.moveTo(targetScreenPos.x, targetScreenPos.y)
+    this.camera.applyTo(this)
+  }
+
+  /**
+   * Keep the camera inside a hand-authored map as drawn in the current orientation
+   * (no bounds in open worlds, nor while the view turns: the grid is between orientations)
+   */
+  private updateCameraBounds() {
+    this.camera.setGridBounds(this.viewRotation || !this.mapData ? null : {
+      width: this.mapData.width,
+      height: this.mapData.height,
+      tileSize: this.tileSize,
+      orientation: this.orientation
+    })
+  }
+
+  /**
+   * Rotate the view by quarter turns (1 turns the world clockwise on screen, -1 counterclockwise)
+   * The rotation is animated around the center of the screen. Turning again before it ends
+   * continues from where the view is.
+   */
+  rotateView(step: number) {
+    const to = (this.viewRotation?.to ?? this.viewTurns) + step
+    this.viewRotation = { from: this.viewTurns, to, elapsed: 0 }
+    this.orientation = (((to % 4) + 4) % 4) as ViewOrientation
+    
+    // The preview's screen points would be left behind, the next hover draws a new one
+    this.hidePathPreview()
+    this.updateCameraBounds()
+  }
+
+  /**
+   * Get the view orientation (the one being turned to while rotating)
+   */
+  getOrientation(): ViewOrientation {
+    return this.orientation
+  }
+
+  /**
+   * Advance the view rotation animation
+   */
+  private updateViewRotation(deltaTime: number) {
+    if (!this.viewRotation) return
+    
+    this.viewRotation.elapsed += deltaTime
+    const progress = Math.min(1, this.viewRotation.elapsed / IsoScene.ROTATION_DURATION)
+    if (progress < 1) {
+      // Ease in and out
+      const eased = progress * progress * (3 - 2 * progress)
+      this.layoutView(this.viewRotation.from + (this.viewRotation.to - this.viewRotation.from) * eased)
       return
     }
     
-    // Convert isometric grid coordinates to screen coordinates for the path
-    const screenPath = pathToFollow
-      .map((point) => {
-        if (point && point.length >= 2 && point[0] !== undefined && point[1] !== undefined) {
-          const isoX = point[0]
-          const isoY = point[1]
-          const screenPos = IsoUtils.isoToScreen(isoX, isoY, this.tileSize)
-          return { x: screenPos.x, y: screenPos.y }
-        }
-        return null
-      })
-      .filter((point): point is { x: number; y: number } => point !== null)
-    
-    // Ensure screen path is not empty
-    if (screenPath.length === 0) {
-      return // No valid screen path
-    }
-    
-    // Calculate target tile position for final orientation
-    // If a cube was clicked, face towards the cube, otherwise face the target tile
-    const finalTargetX = isCubeClicked ? clampedGridX : characterTargetX
-    const finalTargetY = isCubeClicked ? clampedGridY : characterTargetY
-    const targetScreenPos = IsoUtils.isoToScreen(finalTargetX, finalTargetY, this.tileSize)
-    
-    // Move character along the path (using screen coordinates)
-    // Pass target position for final orientation
-    this.character.moveAlongPath(screenPath, undefined, targetScreenPos)
+    // Land exactly on the orientation (whole turns are the same modulo 4)
+    this.viewRotation = null
+    this.layoutView(this.orientation)
+    this.updateCameraBounds()
   }
 
   /**
-   * Update scene position to keep character centered on screen
+   * Lay the world out for a number of view turns
+   * Ground chunks, raised tiles, cubes, ramps and the spawn marker move to where their
+   * grid position is drawn and are depth sorted again. The character (with its path) and the camera keep their
+   * grid positions, so the view turns around the center of the screen.
    */
-  private updateScenePosition() {
-    const characterPos = this.character.getPosition()
+  private layoutView(turns: number) {
+    const previousTurns = this.viewTurns
+    const toNewWorld = (x: number, y: number) => {
+      const iso = IsoUtils.screenToIso(x, y, this.tileSize, 0, previousTurns)
+      return IsoUtils.isoToScreen(iso.x, iso.y, this.tileSize, 0, turns)
+    }
+    const center = toNewWorld(this.camera.getCenter().x, this.camera.getCenter().y)
+    this.viewTurns = turns
     
-    // Character's position in the scene is its world position (screen coordinates)
-    this.character.x = characterPos.x
-    this.character.y = characterPos.y
+    for (const ground of this.groundChunks.values()) {
+      ground.setOrientation(turns)
+    }
+    for (const [tileKey, tile] of this.raisedTiles) {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      this.placeTile(tile, isoX, isoY)
+    }
+    for (const cube of this.obstacleCubes.values()) {
+      cube.setOrientation(turns)
+    }
+    for (const block of this.rampBlocks.values()) {
+      const { isoX, isoY } = block.getIsoPosition()
+      block.setOrientation(turns)
+      block.zIndex = this.getDepthZIndex(isoX, isoY) - 0.5
+    }
+    this.highlights.relayout()
+    this.updateSpawnMarker()
     
-    // Calculate scene position so character appears at screen center
-    this.currentSceneX = this.screenWidth / 2 - characterPos.x
-    this.currentSceneY = this.screenHeight / 2 - characterPos.y
-    this.x = this.currentSceneX
-    this.y = this.currentSceneY
+    this.character.remapPositions(toNewWorld)
+    this.character.setViewRotation(turns)
+    this.camera.lookAt(center.x, center.y)
   }
 
   /**
-   * Handle mouse move event - rotate character towards mouse when not moving
+   * Handle mouse move event - preview the path to the hovered tile
    */
   handleMouseMove(screenX: number, screenY: number) {
     // Convert screen coordinates to world coordinates (relative to scene)
-    const worldX = screenX - this.x
-    const worldY = screenY - this.y
+    const world = this.camera.screenToWorld(screenX, screenY)
+    
+    const pickedTile = this.editor.isEnabled() ? null : this.pickTileAtScreenPosition(world.x, world.y)
+    if (!pickedTile) {
+      this.hidePathPreview()
+      return
+    }
     
-    // Rotate character towards mouse position (only when not moving)
-    this.character.rotateTowardsPosition(worldX, worldY)
+    // Only search again when the hovered tile changes
+    if (this.previewTileKey !== `${pickedTile.gridX},${pickedTile.gridY}`) {
+      this.showPathPreview(pickedTile.gridX, pickedTile.gridY)
+    }
   }
 
   /**
    * Update the scene (call in game loop)
-   * @param deltaTime Time elapsed since last frame in seconds (from ticker.deltaTime)
+   * @param deltaTime Time elapsed since last frame in seconds (from ticker.deltaMS)
    */
   update(deltaTime: number = 1/60) {
+    // Turn the view first, so everything below works in this frame's layout
+    this.updateViewRotation(deltaTime)
+    
+    // Walk with the keyboard, or keep following the current path
+    this.applyMoveInput(deltaTime)
+    
     // Update character movement (time-based for consistent speed)
     this.character.update(deltaTime)
     
@@ -787,11 +1400,181 @@ export class IsoScene extends Container {
       cube.update(deltaTime)
     }
     
-    // Update scene position immediately to keep character centered
-    this.updateScenePosition()
+    // Restore the colors of an unreachable target once its flash is over
+    if (this.unreachableFlash) {
+      this.unreachableFlash.remaining -= deltaTime
+      if (this.unreachableFlash.remaining <= 0) {
+        this.endUnreachableFlash()
+      }
+    }
+    
+    // Move the camera after the character
+    this.updateScenePosition(deltaTime)
+    
+    // Stream the world around the new view, a few chunks at a time
+    this.updateChunks(IsoScene.CHUNK_LOADS_PER_FRAME)
+    
+    // Only draw the ground on screen
+    this.updateGround()
     
     // Update z-ordering based on Y position (depth sorting)
     this.updateZOrdering()
+    
+    // Draw the 3D characters posed above, all at once
+    this.characterAtlas.render()
+  }
+
+  /**
+   * Set the direction to walk in directly (keyboard, gamepad), in grid coordinates as seen
+   * in the default orientation (the scene turns it with the view)
+   * (0, 0) stops walking. The direction doesn't need to be normalized.
+   * @param speed Share of the full walking speed (e.g. how far an analog stick is pushed)
+   */
+  setMoveInput(isoDx: number, isoDy: number, speed: number = 1) {
+    this.moveInput = { x: isoDx, y: isoDy, speed }
+  }
+
+  /**
+   * Interact with the cube the character faces, or go to the selected cube
+   * Works like clicking the cube: it gets selected and the character walks next to it.
+   */
+  interact() {
+    if (this.editor.isEnabled()) return
+    
+    const faced = this.getFacedTile()
+    if (this.obstacles.has(`${faced.isoX},${faced.isoY}`)) {
+      this.moveToTile(faced.isoX, faced.isoY)
+    } else if (this.selectedCubeKey) {
+      const [isoX, isoY] = this.selectedCubeKey.split(',').map(Number)
+      this.moveToTile(isoX!, isoY!)
+    }
+  }
+
+  /**
+   * Cancel the current move: stop the character and clear the target, selection and preview
+   */
+  cancel() {
+    this.character.stop()
+    this.hidePathPreview()
+    this.clearTargetHighlight()
+    this.deselectCube()
+  }
+
+  /**
+   * Select the next (step 1) or previous (step -1) cube, ordered by distance to the character
+   */
+  cycleCubeSelection(step: number) {
+    if (this.editor.isEnabled() || this.obstacleCubes.size === 0) return
+    
+    const { isoX, isoY } = this.getCharacterTile()
+    const cubes = Array.from(this.obstacleCubes.keys()).map((tileKey) => {
+      const [cubeX, cubeY] = tileKey.split(',').map(Number)
+      return { tileKey, isoX: cubeX!, isoY: cubeY!, distance: Math.hypot(cubeX! - isoX, cubeY! - isoY) }
+    })
+    cubes.sort((a, b) => a.distance - b.distance || a.isoY - b.isoY || a.isoX - b.isoX)
+    
+    const currentIndex = cubes.findIndex(cube => cube.tileKey === this.selectedCubeKey)
+    const nextIndex = currentIndex === -1
+      ? (step > 0 ? 0 : cubes.length - 1)
+      : ((currentIndex + step) % cubes.length + cubes.length) % cubes.length
+    const next = cubes[nextIndex]!
+    
+    this.deselectCube()
+    this.selectCube(next.tileKey)
+    this.highlightTargetTile(next.isoX, next.isoY)
+  }
+
+  /**
+   * Get the tile the character stands on
+   */
+  private getCharacterTile(): { isoX: number; isoY: number } {
+    const position = this.character.getPosition()
+    const iso = this.toGrid(position.x, position.y)
+    return { isoX: Math.round(iso.x), isoY: Math.round(iso.y) }
+  }
+
+  /**
+   * Get the tile next to the character in the main direction it faces
+   */
+  private getFacedTile(): { isoX: number; isoY: number } {
+    const { isoX, isoY } = this.getCharacterTile()
+    const rotation = this.character.getRotation()
+    const directions = [{ dx: 0, dy: -1 }, { dx: 1, dy: 0 }, { dx: 0, dy: 1 }, { dx: -1, dy: 0 }]
+    
+    // Pick the grid direction whose walking rotation is closest to the current one
+    let faced = directions[0]!
+    let smallestDiff = Infinity
+    for (const direction of directions) {
+      const screenDirection = this.toWorld(direction.dx, direction.dy)
+      const angle = this.character.getRotationTowards(screenDirection.x, screenDirection.y) - rotation
+      const diff = Math.abs(Math.atan2(Math.sin(angle), Math.cos(angle)))
+      if (diff < smallestDiff) {
+        smallestDiff = diff
+        faced = direction
+      }
+    }
+    return { isoX: isoX + faced.dx, isoY: isoY + faced.dy }
+  }
+
+  /**
+   * Walk in the direction of the move input for one frame
+   * Collides with obstacles and unwalkable steps at tile granularity: when the move would
+   * enter a tile the character can't step onto, it slides along the blocked side instead.
+   */
+  private applyMoveInput(deltaTime: number) {
+    const length = Math.hypot(this.moveInput.x, this.moveInput.y)
+    if (length === 0) {
+      this.character.stopWalking()
+      return
+    }
+    
+    // Walking by hand replaces any click target, and brings the camera back to the character
+    if (!this.character.isWalking()) {
+      this.camera.follow()
+      this.hidePathPreview()
+      this.clearTargetHighlight()
+      this.deselectCube()
+    }
+    
+    // The input is given as seen in the default orientation: turn it with the view
+    const direction = IsoUtils.rotateGrid(this.moveInput.x / length, this.moveInput.y / length, -this.viewTurns)
+    const directionX = direction.x
+    const directionY = direction.y
+    const position = this.character.getPosition()
+    const current = this.toGrid(position.x, position.y)
+    const fromX = Math.round(current.x)
+    const fromY = Math.round(current.y)
+    
+    // Same on-screen speed as path following: convert the distance in pixels to grid units
+    const screenDirection = this.toWorld(directionX, directionY)
+    const distance = this.character.getMoveSpeed() * this.moveInput.speed * this.getSpeedFactor(fromX, fromY) * deltaTime
+    const step = distance / Math.hypot(screenDirection.x, screenDirection.y)
+    const nextX = current.x + directionX * step
+    const nextY = current.y + directionY * step
+    
+    // Try the full move first, then each axis on its own to slide along walls
+    const candidates = [
+      { x: nextX, y: nextY },
+      { x: nextX, y: current.y },
+      { x: current.x, y: nextY }
+    ]
+    const destination = candidates.find(candidate => this.canWalkInto(fromX, fromY, candidate.x, candidate.y)) ?? current
+    
+    const screenPos = this.toWorld(destination.x, destination.y)
+    this.character.walkTo(screenPos.x, screenPos.y, this.getSurfaceElevationAt(destination.x, destination.y), screenDirection.x, screenDirection.y)
+  }
+
+  /**
+   * Check whether the character can walk from a tile to a point of the grid
+   * Points on the same tile are always reachable; other tiles follow the navigation rules.
+   */
+  private canWalkInto(fromX: number, fromY: number, isoX: number, isoY: number): boolean {
+    const toX = Math.round(isoX)
+    const toY = Math.round(isoY)
+    if (toX === fromX && toY === fromY) return true
+    if (Math.abs(toX - fromX) > 1 || Math.abs(toY - fromY) > 1) return false
+    const diagonalMovement = DIAGONAL_POLICIES[this.pathfinder.getOptions().diagonal]
+    return this.navigation.canMove(fromX, fromY, toX, toY, diagonalMovement)
   }
 
   /**
@@ -811,21 +1594,21 @@ export class IsoScene extends Container {
     // Update each cube's zIndex based on its Y position
     // We need to consider the cube's base position (where it sits on the tile)
     for (const cube of this.obstacleCubes.values()) {
-      const cubePos = cube.getScreenPosition()
-      const cubeY = cubePos.y
-      
-      // Cube zIndex based on its base position
+      // Cube zIndex based on its base position on the ground plane (ignoring elevation)
       // Higher Y = closer to camera = higher zIndex
-      cube.zIndex = Math.floor(cubeY * 10)
+      cube.zIndex = Math.floor(cube.getDepthY() * 10)
     }
   }
 
   /**
    * Update screen dimensions (call when window is resized)
+   * The world is kept as it is (obstacles, character, path and selection): only the
+   * projection changes when the tile size does.
    */
   updateScreenSize(width: number, height: number) {
     this.screenWidth = width
     this.screenHeight = height
+    this.camera.setScreenSize(width, height)
     
     // Recalculate tileSize based on new screen dimensions
     // Divide by 3 to zoom out, then multiply by 1.5 to make tiles 1.5x bigger
@@ -834,87 +1617,239 @@ export class IsoScene extends Container {
     const calculatedTileSize = Math.max(32, Math.min(128, (width / targetTilesVisible)))
     const newTileSize = ((calculatedTileSize / 3) * 1.5) / 2 // Divide by 2 to subdivide tiles into 4
     
-    // Only recreate grid if tileSize changed significantly (more than 10%)
+    // Only lay the world out again if tileSize changed significantly (more than 10%)
     if (Math.abs(newTileSize - this.tileSize) / this.tileSize > 0.1) {
-      this.tileSize = newTileSize
-      
-      // Update character scale to match new tile size
-      if (this.character) {
-        this.character.updateScale(this.tileSize)
-      }
-      
-      // Update obstacle cubes scale to match new tile size
-      for (const cube of this.obstacleCubes.values()) {
-        cube.updateScale(this.tileSize)
-      }
-      
-      // Recreate grid with new tile size
-      // Multiply by 2 to double the grid resolution (each original tile becomes 4 tiles)
-      this.tiles.clear()
-      this.removeChildren()
-      this.extendedGridSize = Math.max(
-        this.gridSize * 2, 
-        Math.ceil(this.screenWidth / this.tileSize) + 20,
-        Math.ceil(this.screenHeight / (this.tileSize / 2)) + 20
-      )
-      const matrix = Array(this.extendedGridSize).fill(null).map(() => Array(this.extendedGridSize).fill(0))
-      this.grid = new PF.Grid(matrix)
-      this.createRandomObstaclePositions() // Recreate obstacle positions for new grid size
-      // Build pathfinding grid with obstacles marked as blocked
-      for (const obstacleKey of this.obstacles) {
-        const parts = obstacleKey.split(',')
-        if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-          const isoX = Number(parts[0])
-          const isoY = Number(parts[1])
-          if (!isNaN(isoX) && !isNaN(isoY) && isoX >= 0 && isoX < this.extendedGridSize && isoY >= 0 && isoY < this.extendedGridSize) {
-            const row = matrix[isoY]
-            if (row) {
-              row[isoX] = 1
-            }
-          }
-        }
+      this.setTileSize(newTileSize)
+    }
+    
+    // Recenter character by updating scene position
+    this.updateScenePosition()
+  }
+
+  /**
+   * Lay the world out again for a new tile size
+   * World coordinates are proportional to the tile size, so every world position (the
+   * character, its path and the camera) is scaled and keeps its grid position. Tiles,
+   * cubes and ramps are redrawn at the new size, with the target highlight kept.
+   */
+  private setTileSize(tileSize: number) {
+    const scale = tileSize / this.tileSize
+    this.tileSize = tileSize
+    this.endUnreachableFlash()
+    
+    this.character.updateScale(this.tileSize)
+    this.character.remapPositions((x, y) => ({ x: x * scale, y: y * scale }), scale)
+    
+    // The preview is recomputed on the next hover with the new tile size
+    this.pathPreview.updateScale(this.tileSize)
+    this.hidePathPreview()
+    
+    for (const cube of this.obstacleCubes.values()) {
+      cube.updateScale(this.tileSize)
+    }
+    for (const block of this.rampBlocks.values()) {
+      const { isoX, isoY } = block.getIsoPosition()
+      block.updateScale(this.tileSize)
+      block.zIndex = this.getDepthZIndex(isoX, isoY) - 0.5
+    }
+    for (const ground of this.groundChunks.values()) {
+      ground.updateScale(this.tileSize)
+    }
+    for (const [tileKey, tile] of this.raisedTiles) {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      this.placeTile(tile, isoX, isoY)
+      this.resetTileColor(isoX, isoY)
+    }
+    this.highlights.updateScale(this.tileSize)
+    this.updateSpawnMarker()
+    
+    const center = this.camera.getCenter()
+    this.camera.lookAt(center.x * scale, center.y * scale)
+  }
+
+  /**
+   * Regenerate the world from a seed
+   * Replaces any hand-authored map with an open world generated from the seed
+   */
+  regenerate(seed: number) {
+    this.seed = seed
+    this.mapData = null
+    this.rebuildWorld()
+  }
+
+  /**
+   * Replace the whole world (tiles, obstacles, pathfinding grid) and move the character
+   * to its spawn point: the hand-authored map if there is one, otherwise an open world
+   * generated from the seed
+   * @param explored Saved layout of the explored part of an open world (used instead of
+   *                 generating those chunks again)
+   */
+  private rebuildWorld(explored?: { map: MapData; world: OpenWorldState }) {
+    // Clear selection state (tiles and cubes are recreated below)
+    this.clearTargetHighlight()
+    this.deselectCube()
+    this.endUnreachableFlash()
+    this.hidePathPreview()
+    
+    this.chunks.unloadAll()
+    this.clearWorldData()
+    
+    if (this.mapData) {
+      this.addMapData(this.mapData)
+      this.spawn = { isoX: this.mapData.spawn.isoX, isoY: this.mapData.spawn.isoY }
+    } else if (explored) {
+      const { origin, chunkSize, chunks } = explored.world
+      const map = translateMap(explored.map, origin.isoX, origin.isoY)
+      this.chunks.setChunkSize(chunkSize)
+      this.addMapData(map)
+      for (const { chunkX, chunkY } of chunks) {
+        this.knownChunks.add(`${chunkX},${chunkY}`)
       }
-      this.grid = new PF.Grid(matrix)
-      this.createGrid()
-      this.createObstacleCubes() // Create obstacle cubes after grid
-      this.addChild(this.character)
+      this.spawn = { isoX: map.spawn.isoX, isoY: map.spawn.isoY }
     } else {
-      // Just update extended grid size if needed
-      // Multiply by 2 to double the grid resolution (each original tile becomes 4 tiles)
-      const newExtendedGridSize = Math.max(
-        this.gridSize * 2, 
-        Math.ceil(this.screenWidth / this.tileSize) + 20,
-        Math.ceil(this.screenHeight / (this.tileSize / 2)) + 20
-      )
-      
-      // Only update if grid size changed significantly
-      if (Math.abs(newExtendedGridSize - this.extendedGridSize) > 5) {
-        this.extendedGridSize = newExtendedGridSize
-        // Recreate obstacle positions for new grid size
-        this.createRandomObstaclePositions()
-        // Recreate pathfinder grid with obstacles
-        const matrix = Array(this.extendedGridSize).fill(null).map(() => Array(this.extendedGridSize).fill(0))
-        for (const obstacleKey of this.obstacles) {
-          const parts = obstacleKey.split(',')
-          if (parts.length >= 2 && parts[0] !== undefined && parts[1] !== undefined) {
-            const isoX = Number(parts[0])
-            const isoY = Number(parts[1])
-            if (!isNaN(isoX) && !isNaN(isoY) && isoX >= 0 && isoX < this.extendedGridSize && isoY >= 0 && isoY < this.extendedGridSize) {
-              const row = matrix[isoY]
-              if (row) {
-                row[isoX] = 1
-              }
-            }
-          }
-        }
-        this.grid = new PF.Grid(matrix)
-        // Recreate obstacle cubes
-        this.createObstacleCubes()
-      }
+      this.spawn = this.generateChunk(0, 0)!.spawn
     }
+    this.updateSpawnMarker()
+    this.editor.clearHistory()
     
-    // Recenter character by updating scene position
+    // Move the character to the new spawn point
+    const screenPos = this.toWorld(this.spawn.isoX, this.spawn.isoY)
+    this.character.setPosition(screenPos.x, screenPos.y, this.getSurfaceElevation(this.spawn.isoX, this.spawn.isoY))
+    this.updateScenePosition()
+    this.updateChunks()
+  }
+
+  /**
+   * Get the area of the world data: the whole map, or the chunks explored in an open world
+   */
+  private getWorldBounds(): TileBounds {
+    if (this.mapData) {
+      return { minX: 0, minY: 0, maxX: this.mapData.width - 1, maxY: this.mapData.height - 1 }
+    }
+    
+    const chunkSize = this.chunks.getChunkSize()
+    const chunks = Array.from(this.knownChunks, chunkKey => chunkKey.split(',').map(Number) as [number, number])
+    return {
+      minX: Math.min(...chunks.map(([chunkX]) => chunkX)) * chunkSize,
+      minY: Math.min(...chunks.map(([, chunkY]) => chunkY)) * chunkSize,
+      maxX: (Math.max(...chunks.map(([chunkX]) => chunkX)) + 1) * chunkSize - 1,
+      maxY: (Math.max(...chunks.map(([, chunkY]) => chunkY)) + 1) * chunkSize - 1
+    }
+  }
+
+  /**
+   * Get the current world layout as map data (includes editor changes)
+   * For open worlds this is the explored area, moved so that it starts at tile (0, 0).
+   */
+  getMapData(): MapData {
+    const obstacles = Array.from(this.obstacles).map((tileKey) => {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      const obstacle: MapObstacle = { isoX, isoY }
+      const color = this.obstacleColors.get(tileKey)
+      if (color !== undefined) obstacle.color = color
+      const levels = this.obstacleLevels.get(tileKey)
+      if (levels !== undefined) obstacle.levels = levels
+      return obstacle
+    })
+    
+    const heights = Array.from(this.tileHeights).map(([tileKey, height]) => {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      return { isoX, isoY, height }
+    })
+    
+    const ramps = Array.from(this.ramps).map(([tileKey, ramp]): MapRamp => {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      return { isoX, isoY, direction: ramp.direction, kind: ramp.kind }
+    })
+    
+    const terrain = Array.from(this.terrain).map(([tileKey, type]): MapTerrain => {
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      return { isoX, isoY, terrain: type }
+    })
+    
+    const bounds = this.getWorldBounds()
+    return translateMap({
+      width: bounds.maxX - bounds.minX + 1,
+      height: bounds.maxY - bounds.minY + 1,
+      obstacles,
+      heights,
+      ramps,
+      terrain,
+      spawn: { ...this.spawn }
+    }, -bounds.minX, -bounds.minY)
+  }
+
+  /**
+   * Capture the scene and character state for saving
+   */
+  serialize(): SceneState {
+    const characterPos = this.character.getPosition()
+    const characterIso = this.toGrid(characterPos.x, characterPos.y)
+    
+    const parseKey = (tileKey: string | null) => {
+      if (!tileKey) return null
+      const [isoX, isoY] = tileKey.split(',').map(Number) as [number, number]
+      return { isoX, isoY }
+    }
+    
+    const bounds = this.getWorldBounds()
+    const world: OpenWorldState | undefined = this.mapData ? undefined : {
+      origin: { isoX: bounds.minX, isoY: bounds.minY },
+      chunkSize: this.chunks.getChunkSize(),
+      chunks: Array.from(this.knownChunks, (chunkKey) => {
+        const [chunkX, chunkY] = chunkKey.split(',').map(Number) as [number, number]
+        return { chunkX, chunkY }
+      })
+    }
+    
+    return {
+      version: SCENE_STATE_VERSION,
+      seed: this.mapData ? null : this.seed,
+      map: this.getMapData(),
+      world,
+      character: {
+        isoX: Math.round(characterIso.x),
+        isoY: Math.round(characterIso.y),
+        rotationY: this.character.getRotation()
+      },
+      selectedCube: parseKey(this.selectedCubeKey),
+      targetTile: parseKey(this.selectedTileKey)
+    }
+  }
+
+  /**
+   * Restore a previously saved scene state
+   * An open world keeps being generated from its seed beyond the explored area. Older
+   * saves are kept as-is (like a hand-authored map) when saved again.
+   */
+  restore(state: SceneState) {
+    if (state.seed !== null) {
+      this.seed = state.seed
+    }
+    const isOpenWorld = state.world !== undefined && state.seed !== null
+    this.mapData = isOpenWorld ? null : state.map
+    this.rebuildWorld(isOpenWorld ? { map: state.map, world: state.world! } : undefined)
+    
+    // Put the character back where it was, facing the same way
+    const screenPos = this.toWorld(state.character.isoX, state.character.isoY)
+    this.character.setPosition(screenPos.x, screenPos.y, this.getSurfaceElevation(state.character.isoX, state.character.isoY))
+    this.character.setRotation(state.character.rotationY)
     this.updateScenePosition()
+    this.updateChunks() // The highlighted tile and the selected cube must be loaded
+    
+    if (state.targetTile) {
+      this.highlightTargetTile(state.targetTile.isoX, state.targetTile.isoY)
+    }
+    if (state.selectedCube) {
+      this.selectCube(`${state.selectedCube.isoX},${state.selectedCube.isoY}`)
+    }
+  }
+
+  /**
+   * Get the seed used for random generation
+   */
+  getSeed(): number {
+    return this.seed
   }
 
   /**
@@ -927,12 +1862,179 @@ export class IsoScene extends Container {
     return (Math.floor(r) << 16) | (Math.floor(g) << 8) | Math.floor(b)
   }
 
-  getCharacter(): Character3D {
+  /**
+   * Draw the spawn marker at the spawn tile (and re-add it after the scene was cleared)
+   */
+  private updateSpawnMarker() {
+    const spawnHeight = this.getTileHeight(this.spawn.isoX, this.spawn.isoY)
+    const screenPos = this.toWorld(this.spawn.isoX, this.spawn.isoY, spawnHeight)
+    const scaledHalfWidth = this.tileSize // (tileSize / 2) * 2.0
+    const scaledHalfHeight = this.tileSize / 2 // (tileSize / 4) * 2.0
+    
+    this.spawnMarker.position.set(screenPos.x, screenPos.y)
+    this.spawnMarker.clear()
+    this.spawnMarker.poly([
+      0, -scaledHalfHeight,
+      scaledHalfWidth, 0,
+      0, scaledHalfHeight,
+      -scaledHalfWidth, 0
+    ])
+    this.spawnMarker.stroke({ width: 3, color: 0x00bfff }) // Cyan outline
+    // Raised tiles are depth sorted with cubes, so the marker must sit just above its tile
+    this.spawnMarker.zIndex = spawnHeight > 0
+      ? this.getDepthZIndex(this.spawn.isoX, this.spawn.isoY) - 0.5
+      : IsoScene.SPAWN_MARKER_Z_INDEX
+    
+    const layer = spawnHeight > 0 ? this : this.groundLayer
+    if (this.spawnMarker.parent !== layer) {
+      layer.addChild(this.spawnMarker)
+    }
+  }
+
+  hasObstacle(isoX: number, isoY: number): boolean {
+    return this.obstacles.has(`${isoX},${isoY}`)
+  }
+
+  /**
+   * Obstacles can't be placed outside the loaded tiles, on the spawn point or under the character
+   */
+  canPlaceObstacle(isoX: number, isoY: number): boolean {
+    if (!this.isTileLoaded(isoX, isoY)) {
+      return false
+    }
+    if (isoX === this.spawn.isoX && isoY === this.spawn.isoY) {
+      return false
+    }
+    if (this.ramps.has(`${isoX},${isoY}`)) {
+      return false
+    }
+    const characterPos = this.character.getPosition()
+    const characterIso = this.toGrid(characterPos.x, characterPos.y)
+    return !(Math.round(characterIso.x) === isoX && Math.round(characterIso.y) === isoY)
+  }
+
+  /**
+   * Add an obstacle cube and block its tile in the pathfinding grid
+   */
+  addObstacle(isoX: number, isoY: number, color: number, levels: number = 1) {
+    const tileKey = `${isoX},${isoY}`
+    if (this.obstacles.has(tileKey)) return
+    
+    this.obstacles.add(tileKey)
+    this.obstacleColors.set(tileKey, color)
+    if (levels > 1) {
+      this.obstacleLevels.set(tileKey, levels)
+    }
+    this.updateNavigationTile(isoX, isoY)
+    // Cubes of unloaded chunks are created when they load (e.g. undoing far away edits)
+    if (this.isTileLoaded(isoX, isoY)) {
+      this.createObstacleCube(isoX, isoY)
+    }
+    this.resetTileColor(isoX, isoY)
+  }
+
+  /**
+   * Remove an obstacle cube and make its tile walkable again
+   */
+  removeObstacle(isoX: number, isoY: number) {
+    const tileKey = `${isoX},${isoY}`
+    if (!this.obstacles.has(tileKey)) return
+    
+    if (this.selectedCubeKey === tileKey) {
+      this.selectedCube = null
+      this.selectedCubeKey = null
+    }
+    
+    const cube = this.obstacleCubes.get(tileKey)
+    if (cube) {
+      this.removeChild(cube)
+      cube.destroy()
+      this.obstacleCubes.delete(tileKey)
+    }
+    this.obstacles.delete(tileKey)
+    this.obstacleColors.delete(tileKey)
+    this.obstacleLevels.delete(tileKey)
+    this.updateNavigationTile(isoX, isoY)
+    this.resetTileColor(isoX, isoY)
+  }
+
+  getObstacleColor(isoX: number, isoY: number): number {
+    return this.obstacleColors.get(`${isoX},${isoY}`) ?? this.defaultCubeColor
+  }
+
+  getObstacleLevels(isoX: number, isoY: number): number {
+    return this.obstacleLevels.get(`${isoX},${isoY}`) ?? 1
+  }
+
+  setObstacleColor(isoX: number, isoY: number, color: number) {
+    const tileKey = `${isoX},${isoY}`
+    if (!this.obstacles.has(tileKey)) return
+    
+    // Drop the selection highlight so it doesn't restore the old color later
+    if (this.selectedCubeKey === tileKey) {
+      this.deselectCube()
+    }
+    this.obstacleColors.set(tileKey, color)
+    this.obstacleCubes.get(tileKey)?.setColor(color)
+  }
+
+  getSpawn(): { isoX: number; isoY: number } {
+    return { ...this.spawn }
+  }
+
+  setSpawn(isoX: number, isoY: number) {
+    this.spawn = { isoX, isoY }
+    this.updateSpawnMarker()
+  }
+
+  /**
+   * Show editor-only helpers (spawn marker) when the editor is enabled
+   */
+  setEditorMode(enabled: boolean) {
+    this.spawnMarker.visible = enabled
+    this.hidePathPreview()
+  }
+
+  getDefaultCubeColor(): number {
+    return this.defaultCubeColor
+  }
+
+  getEditor(): LevelEditor {
+    return this.editor
+  }
+
+  getHighlights(): HighlightOverlay {
+    return this.highlights
+  }
+
+  getCamera(): Camera {
+    return this.camera
+  }
+
+  getPathfinder(): Pathfinder {
+    return this.pathfinder
+  }
+
+  getNavigationGrid(): NavigationGrid {
+    return this.navigation
+  }
+
+  /**
+   * Darken a color by a percentage (for raised tile sides)
+   */
+  private darkenColor(color: number, amount: number): number {
+    const r = Math.max(0, ((color >> 16) & 0xFF) * (1 - amount))
+    const g = Math.max(0, ((color >> 8) & 0xFF) * (1 - amount))
+    const b = Math.max(0, (color & 0xFF) * (1 - amount))
+    return (Math.floor(r) << 16) | (Math.floor(g) << 8) | Math.floor(b)
+  }
+
+  getCharacter(): Character {
     return this.character
   }
 
   // Keep for backward compatibility
-  getSphere(): Character3D {
+  getSphere(): Character {
     return this.character
   }
 }
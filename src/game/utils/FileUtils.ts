@@ -0,0 +1,25 @@
+/**
+ * Utility functions for exchanging files with the user
+ */
+
+export class FileUtils {
+  /**
+   * Download data as a pretty-printed JSON file
+   */
+  static downloadJson(data: unknown, filename: string) {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+    FileUtils.downloadBlob(blob, filename)
+  }
+
+  /**
+   * Download binary data (e.g. an image) as a file
+   */
+  static downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+}
@@ -2,34 +2,66 @@
  * Utility functions for isometric coordinate conversion
  */
 
+/**
+ * Orientation of the view in quarter turns (0 = default, grid X to the bottom right)
+ * Each step rotates the grid by 90° on screen (counterclockwise in grid coordinates).
+ */
+export type ViewOrientation = 0 | 1 | 2 | 3
+
 export class IsoUtils {
+  /**
+   * Height of one elevation level relative to tileSize
+   * One level is exactly one cube high, so cubes stack onto raised tiles seamlessly
+   */
+  static readonly LEVEL_HEIGHT_RATIO = 1.2
+
+  /**
+   * Get the on-screen height (in pixels) of one elevation level
+   */
+  static getLevelHeight(tileSize: number = 64): number {
+    return tileSize * IsoUtils.LEVEL_HEIGHT_RATIO
+  }
+
+  /**
+   * Rotate grid coordinates around the grid origin
+   * @param turns Quarter turns (fractional while a rotation is animated)
+   */
+  static rotateGrid(isoX: number, isoY: number, turns: number): { x: number; y: number } {
+    // Whole turns are exact, so tiles land back on whole coordinates
+    const quarter = ((Math.round(turns) % 4) + 4) % 4
+    const isWhole = Math.abs(turns - Math.round(turns)) < 1e-9
+    const cos = isWhole ? [1, 0, -1, 0][quarter]! : Math.cos(turns * Math.PI / 2)
+    const sin = isWhole ? [0, 1, 0, -1][quarter]! : Math.sin(turns * Math.PI / 2)
+    return {
+      x: isoX * cos - isoY * sin,
+      y: isoX * sin + isoY * cos,
+    }
+  }
+
   /**
    * Convert isometric grid coordinates to screen coordinates
+   * @param z Elevation in levels (raises the point vertically on screen)
+   * @param orientation View orientation in quarter turns (fractional while a rotation is animated)
    */
-  static isoToScreen(isoX: number, isoY: number, tileSize: number = 64): { x: number; y: number } {
+  static isoToScreen(isoX: number, isoY: number, tileSize: number = 64, z: number = 0, orientation: number = 0): { x: number; y: number } {
+    const view = orientation === 0 ? { x: isoX, y: isoY } : IsoUtils.rotateGrid(isoX, isoY, orientation)
     return {
-      x: (isoX - isoY) * tileSize,
-      y: (isoX + isoY) * tileSize / 2,
+      x: (view.x - view.y) * tileSize,
+      y: (view.x + view.y) * tileSize / 2 - z * IsoUtils.getLevelHeight(tileSize),
     }
   }
 
   /**
    * Convert screen coordinates to isometric grid coordinates
+   * @param z Elevation in levels of the surface the point lies on
+   * @param orientation View orientation in quarter turns (fractional while a rotation is animated)
    */
-  static screenToIso(screenX: number, screenY: number, tileSize: number = 64): { x: number; y: number } {
-    return {
-      x: (screenX / tileSize + screenY / (tileSize / 2)) / 2,
-      y: (screenY / (tileSize / 2) - screenX / tileSize) / 2,
+  static screenToIso(screenX: number, screenY: number, tileSize: number = 64, z: number = 0, orientation: number = 0): { x: number; y: number } {
+    const groundY = screenY + z * IsoUtils.getLevelHeight(tileSize)
+    const view = {
+      x: (screenX / tileSize + groundY / (tileSize / 2)) / 2,
+      y: (groundY / (tileSize / 2) - screenX / tileSize) / 2,
     }
+    return orientation === 0 ? view : IsoUtils.rotateGrid(view.x, view.y, -orientation)
   }
 }
-
-
-
-
-
-
-
-
-
-
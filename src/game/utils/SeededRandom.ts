@@ -0,0 +1,80 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32)
+ *
+ * The same seed always produces the same sequence of numbers, which makes
+ * world generation reproducible. Use it instead of Math.random() for anything
+ * that affects the generated world.
+ */
+export class SeededRandom {
+  readonly seed: number
+  private state: number
+
+  constructor(seed: number) {
+    // Keep seeds as unsigned 32-bit integers
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Create a new random seed (for when the user did not provide one)
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * Parse a seed from user input (query string or text field)
+   * Numeric strings are used as-is, other strings are hashed
+   */
+  static parseSeed(value: string): number | null {
+    const trimmed = value.trim()
+    if (trimmed === '') return null
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0
+    }
+
+    // FNV-1a hash for text seeds
+    let hash = 0x811c9dc5
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * Derive the seed of a cell of the world (e.g. a chunk) from the world seed
+   * Each cell gets its own sequence, so cells can be generated in any order.
+   */
+  static deriveSeed(seed: number, cellX: number, cellY: number): number {
+    let hash = seed >>> 0
+    hash = Math.imul(hash ^ Math.imul(cellX, 0x9e3779b1), 0x85ebca6b)
+    hash = Math.imul(hash ^ (hash >>> 13) ^ Math.imul(cellY, 0xc2b2ae35), 0x27d4eb2f)
+    return (hash ^ (hash >>> 16)) >>> 0
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * Next integer in [0, max)
+   */
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max)
+  }
+
+  /**
+   * Next float in [min, max)
+   */
+  nextRange(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Rectangle of tiles in grid coordinates (bounds included)
+ */
+export interface TileBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * Creates and destroys the content of chunks (implemented by the scene)
+ */
+export interface ChunkLoader {
+  hasChunk(chunkX: number, chunkY: number): boolean // False for chunks outside a finite world
+  loadChunk(chunkX: number, chunkY: number): void
+  unloadChunk(chunkX: number, chunkY: number): void
+}
+
+export interface ChunkManagerOptions {
+  chunkSize?: number // Side of a chunk in tiles (default 32)
+  unloadMargin?: number // Chunks this far (in chunks) from every required area stay loaded (default 1)
+}
+
+/**
+ * Keeps track of the loaded chunks of the world
+ *
+ * The world is divided into square chunks of chunkSize tiles; chunk (0, 0) starts at
+ * tile (0, 0) and chunk coordinates can be negative. Every frame the scene tells the
+ * manager which areas must be available (what the camera sees, the surroundings of the
+ * character): missing chunks covering them are loaded, closest to the first area first,
+ * and chunks farther than the unload margin from every area are unloaded. The margin
+ * keeps chunks at the edge of the view from being loaded and unloaded over and over.
+ */
+export class ChunkManager {
+  private loader: ChunkLoader
+  private chunkSize: number = 32
+  private unloadMargin: number = 1
+  private loaded: Map<string, { chunkX: number; chunkY: number }> = new Map() // By "chunkX,chunkY"
+
+  constructor(loader: ChunkLoader, options: ChunkManagerOptions = {}) {
+    this.loader = loader
+    this.chunkSize = options.chunkSize ?? this.chunkSize
+    this.unloadMargin = options.unloadMargin ?? this.unloadMargin
+  }
+
+  getChunkSize(): number {
+    return this.chunkSize
+  }
+
+  /**
+   * Change the chunk size (everything is unloaded first)
+   */
+  setChunkSize(chunkSize: number) {
+    this.unloadAll()
+    this.chunkSize = chunkSize
+  }
+
+  /**
+   * Get the chunk a tile belongs to
+   */
+  getChunkAt(isoX: number, isoY: number): { chunkX: number; chunkY: number } {
+    return { chunkX: Math.floor(isoX / this.chunkSize), chunkY: Math.floor(isoY / this.chunkSize) }
+  }
+
+  /**
+   * Get the tiles of a chunk
+   */
+  getChunkBounds(chunkX: number, chunkY: number): TileBounds {
+    return {
+      minX: chunkX * this.chunkSize,
+      minY: chunkY * this.chunkSize,
+      maxX: (chunkX + 1) * this.chunkSize - 1,
+      maxY: (chunkY + 1) * this.chunkSize - 1
+    }
+  }
+
+  isLoaded(chunkX: number, chunkY: number): boolean {
+    return this.loaded.has(`${chunkX},${chunkY}`)
+  }
+
+  /**
+   * Get the smallest rectangle of tiles containing every loaded chunk (null if none is)
+   */
+  getLoadedBounds(): TileBounds | null {
+    let bounds: TileBounds | null = null
+    for (const { chunkX, chunkY } of this.loaded.values()) {
+      const chunk = this.getChunkBounds(chunkX, chunkY)
+      bounds = bounds
+        ? {
+            minX: Math.min(bounds.minX, chunk.minX),
+            minY: Math.min(bounds.minY, chunk.minY),
+            maxX: Math.max(bounds.maxX, chunk.maxX),
+            maxY: Math.max(bounds.maxY, chunk.maxY)
+          }
+        : chunk
+    }
+    return bounds
+  }
+
+  /**
+   * Load the chunks covering the required areas and unload the ones far from all of them
+   * @param areas Tiles that must be loaded, the most important area first
+   * @param maxLoads Most chunks loaded in this call (spreads loading over several frames)
+   * Returns true if any chunk was loaded or unloaded
+   */
+  update(areas: TileBounds[], maxLoads: number = Infinity): boolean {
+    const ranges = areas.map(area => this.getChunkRange(area))
+    let changed = false
+
+    for (const [chunkKey, { chunkX, chunkY }] of this.loaded) {
+      const isNeeded = ranges.some(range =>
+        chunkX >= range.minX - this.unloadMargin && chunkX <= range.maxX + this.unloadMargin &&
+        chunkY >= range.minY - this.unloadMargin && chunkY <= range.maxY + this.unloadMargin
+      )
+      if (!isNeeded) {
+        this.loaded.delete(chunkKey)
+        this.loader.unloadChunk(chunkX, chunkY)
+        changed = true
+      }
+    }
+
+    const missing: Array<{ chunkX: number; chunkY: number }> = []
+    for (const range of ranges) {
+      for (let chunkY = range.minY; chunkY <= range.maxY; chunkY++) {
+        for (let chunkX = range.minX; chunkX <= range.maxX; chunkX++) {
+          const chunkKey = `${chunkX},${chunkY}`
+          if (this.loaded.has(chunkKey) || missing.some(chunk => chunk.chunkX === chunkX && chunk.chunkY === chunkY)) continue
+          if (this.loader.hasChunk(chunkX, chunkY)) {
+            missing.push({ chunkX, chunkY })
+          }
+        }
+      }
+    }
+
+    // Closest to the center of the first area first
+    const first = ranges[0]
+    if (first) {
+      const centerX = (first.minX + first.maxX) / 2
+      const centerY = (first.minY + first.maxY) / 2
+      missing.sort((a, b) =>
+        Math.hypot(a.chunkX - centerX, a.chunkY - centerY) - Math.hypot(b.chunkX - centerX, b.chunkY - centerY)
+      )
+    }
+
+    for (const { chunkX, chunkY } of missing.slice(0, maxLoads)) {
+      this.loaded.set(`${chunkX},${chunkY}`, { chunkX, chunkY })
+      this.loader.loadChunk(chunkX, chunkY)
+      changed = true
+    }
+    return changed
+  }
+
+  /**
+   * Unload every chunk
+   */
+  unloadAll() {
+    for (const { chunkX, chunkY } of this.loaded.values()) {
+      this.loader.unloadChunk(chunkX, chunkY)
+    }
+    this.loaded.clear()
+  }
+
+  /**
+   * Get the chunks covering a rectangle of tiles (as a rectangle of chunk coordinates)
+   */
+  private getChunkRange(area: TileBounds): TileBounds {
+    const min = this.getChunkAt(area.minX, area.minY)
+    const max = this.getChunkAt(area.maxX, area.maxY)
+    return { minX: min.chunkX, minY: min.chunkY, maxX: max.chunkX, maxY: max.chunkY }
+  }
+}